@@ -0,0 +1,327 @@
+#!/usr/bin/env node
+import { existsSync, readdirSync, statSync } from 'node:fs'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import { basename, isAbsolute, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { buildFilterChain, FilterStage } from '../src/audioFilters'
+import { codecs, EncodeSettings, getCodec, OutputCodec, RateControl } from '../src/codecs'
+import { readId3Tags } from '../src/id3'
+import {
+  buildEncodeArgs, DownmixMethod, downmixFilters, fitToCodec, formatOutputName, formatSettings, getInputArgs, getInputName,
+  getPresetSettings, parseAudioStream, presets, StereoMode, uniqueFileName,
+} from '../src/pipeline'
+import { parsePresetFile } from '../src/userPresets'
+
+// The part of the Emscripten module that ffmpeg.wasm's own worker uses
+interface FFmpegCore {
+  FS: {
+    writeFile: (path: string, data: Uint8Array) => void
+    readFile: (path: string) => Uint8Array
+    unlink: (path: string) => void
+  }
+  ret: number
+  exec: (...args: string[]) => void
+  reset: () => void
+  setLogger: (logger: (log: { type: string; message: string }) => void) => void
+}
+
+interface Options {
+  inputs: string[]
+  settings: EncodeSettings
+  filters: FilterStage[]
+  downmix: DownmixMethod
+  stereoMode: StereoMode
+  stripTags: boolean
+  outDir: string
+  // File to write the JSON report to, '-' for stdout
+  report: string | null
+}
+
+interface ReportEntry {
+  input: string
+  output: string | null
+  inputSize: number
+  outputSize: number | null
+  error: string | null
+}
+
+// Built-in presets that need values only the app asks for
+const INTERACTIVE_PRESETS = ['target', 'custom']
+const rateControls: RateControl[] = ['cbr', 'vbr', 'abr']
+const downmixMethods: DownmixMethod[] = ['average', 'left', 'right']
+const stereoModes: StereoMode[] = ['auto', 'joint', 'stereo']
+
+const USAGE = `Usage: mp3-compress <input>... [options]
+
+Inputs may be files or glob patterns (*, ?, **); quote patterns to expand them here rather than in the shell.
+
+Options:
+  --preset <id|name>      ${presets.filter(p => !INTERACTIVE_PRESETS.includes(p.id)).map(p => p.id).join(', ')} (default: medium),
+                          or the name of a preset in --preset-file
+  --preset-file <file>    Preset file exported from the app
+  --codec <id>            ${codecs.map(c => c.id).join(', ')} (default: mp3); ignored for presets that fix a codec
+  --rate-control <mode>   ${rateControls.join(', ')} (default: cbr)
+  --downmix <method>      ${downmixMethods.join(', ')}: how stereo becomes mono (default: average)
+  --stereo-mode <mode>    ${stereoModes.join(', ')} (default: auto)
+  --strip-tags            Remove all tags and the cover
+  --out <dir>             Output directory (default: current directory)
+  --report <file>         Write a JSON report; '-' for stdout
+  -h, --help              Show this help
+
+Exit status: 0 if every file was compressed, 1 if any failed, 2 on invalid arguments or no inputs.`
+
+function pick<T extends string>(name: string, value: string | undefined, allowed: T[], fallback: T): T {
+  if (value === undefined) return fallback
+  if (!allowed.includes(value as T)) {
+    throw new Error(`--${name} must be one of ${allowed.join(', ')}`)
+  }
+  return value as T
+}
+
+function globToRegExp(segment: string): RegExp {
+  const source = segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')
+  return new RegExp(`^${source}$`)
+}
+
+// Paths under `dir` matching the remaining pattern segments; '**' matches any number of directories
+function matchSegments(dir: string, segments: string[]): string[] {
+  if (segments.length === 0) return [dir]
+  const [segment, ...rest] = segments
+  if (!/[*?]/.test(segment)) {
+    const path = join(dir, segment)
+    return existsSync(path) ? matchSegments(path, rest) : []
+  }
+
+  let entries
+  try {
+    entries = readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+  // Like the shell, wildcards skip hidden entries
+  const visible = entries.filter(entry => !entry.name.startsWith('.') || segment.startsWith('.'))
+  if (segment === '**') {
+    return [
+      ...matchSegments(dir, rest),
+      ...visible.filter(entry => entry.isDirectory()).flatMap(entry => matchSegments(join(dir, entry.name), segments)),
+    ]
+  }
+  const pattern = globToRegExp(segment)
+  return visible.filter(entry => pattern.test(entry.name)).flatMap(entry => matchSegments(join(dir, entry.name), rest))
+}
+
+// Files matching any of the patterns, each once; a plain path that doesn't exist is an error
+function expandInputs(patterns: string[]): string[] {
+  const paths = patterns.flatMap((pattern) => {
+    if (/[*?]/.test(pattern)) {
+      const segments = pattern.split(/[\\/]+/).filter(Boolean)
+      return matchSegments(isAbsolute(pattern) ? '/' : '.', segments).sort()
+    }
+    if (!existsSync(pattern)) {
+      throw new Error(`${pattern}: no such file`)
+    }
+    return [pattern]
+  })
+  return [...new Set(paths)].filter(path => statSync(path).isFile())
+}
+
+async function parseOptions(argv: string[]): Promise<Options | null> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'preset': { type: 'string', default: 'medium' },
+      'preset-file': { type: 'string' },
+      'codec': { type: 'string' },
+      'rate-control': { type: 'string' },
+      'downmix': { type: 'string' },
+      'stereo-mode': { type: 'string' },
+      'strip-tags': { type: 'boolean', default: false },
+      'out': { type: 'string', default: '.' },
+      'report': { type: 'string' },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  })
+  if (values.help) return null
+
+  const codec = pick('codec', values.codec, codecs.map(c => c.id), 'mp3' as OutputCodec)
+  const rateControl = pick('rate-control', values['rate-control'], rateControls, 'cbr')
+  let settings: EncodeSettings
+  let filters: FilterStage[] = []
+
+  // Presets from a file take precedence, as user presets do in the app
+  const file = values['preset-file'] ? parsePresetFile(await readFile(values['preset-file'], 'utf8')) : null
+  if (file && file.issues.length > 0) {
+    const issues = file.issues.map(issue => (issue.entry === null ? issue.key : `preset ${issue.entry + 1}: ${issue.key} ${issue.field ?? ''}`.trim()))
+    throw new Error(`invalid preset file: ${issues.join(', ')}`)
+  }
+  const userPreset = file?.presets.find(p => p.name === values.preset)
+  const preset = presets.find(p => p.id === values.preset && !INTERACTIVE_PRESETS.includes(p.id))
+  if (userPreset) {
+    const { codec, rateControl, bitrate, vbrQuality, sampleRate, channels } = userPreset
+    settings = fitToCodec({ codec, rateControl, bitrate, vbrQuality, sampleRate, channels })
+    filters = userPreset.filters
+  } else if (preset) {
+    settings = getPresetSettings(preset, codec, rateControl)
+    filters = preset.filters ?? []
+  } else {
+    throw new Error(`unknown preset "${values.preset}"`)
+  }
+
+  if (positionals.length === 0) {
+    throw new Error('no input files')
+  }
+  const inputs = expandInputs(positionals)
+  if (inputs.length === 0) {
+    throw new Error(`no files match ${positionals.join(' ')}`)
+  }
+
+  return {
+    inputs,
+    settings,
+    filters,
+    downmix: pick('downmix', values.downmix, downmixMethods, 'average'),
+    stereoMode: pick('stereo-mode', values['stereo-mode'], stereoModes, 'auto'),
+    stripTags: values['strip-tags'],
+    outDir: values.out,
+    report: values.report ?? null,
+  }
+}
+
+function loadCore(): Promise<FFmpegCore> {
+  const require = createRequire(import.meta.url)
+  const createCore = require('@ffmpeg/core') as (options: object) => Promise<FFmpegCore>
+  return createCore({})
+}
+
+// Run one command; returns the exit code and the log
+function run(core: FFmpegCore, args: string[]): { code: number; log: string[] } {
+  const log: string[] = []
+  core.setLogger(({ message }) => log.push(message))
+  try {
+    core.exec(...args)
+    return { code: core.ret, log }
+  } finally {
+    core.reset()
+  }
+}
+
+function probeInput(core: FFmpegCore, inputName: string): { sampleRate: number; channels: number } | null {
+  return parseAudioStream(run(core, ['-hide_banner', '-i', inputName]).log.join('\n'))
+}
+
+/**
+ * Encode one file the way the app does with the same settings: same filters,
+ * same cover handling, same arguments and output name.
+ */
+async function compressFile(core: FFmpegCore, path: string, options: Options, usedNames: Set<string>): Promise<ReportEntry> {
+  const { settings } = options
+  const codec = getCodec(settings.codec)
+  const data = new Uint8Array(await readFile(path))
+  const entry: ReportEntry = {
+    input: path,
+    output: null,
+    inputSize: data.length,
+    outputSize: null,
+    error: null,
+  }
+
+  const inputName = getInputName(path)
+  const outputName = `output.${codec.extension}`
+  const files = [inputName]
+  try {
+    core.FS.writeFile(inputName, data)
+    const source = probeInput(core, inputName)
+    if (!source) {
+      throw new Error('no audio stream found')
+    }
+
+    const cover = !options.stripTags && codec.supportsCoverArt
+      ? (await readId3Tags(new File([data], basename(path))))?.cover ?? null
+      : null
+    const coverName = cover ? `cover.${cover.mimeType === 'image/png' ? 'png' : 'jpg'}` : null
+    if (cover && coverName) {
+      core.FS.writeFile(coverName, cover.data)
+      files.push(coverName)
+    }
+
+    const filters = [
+      ...(settings.channels === 1 && source.channels === 2 ? [downmixFilters[options.downmix]] : []),
+      ...buildFilterChain(options.filters),
+    ]
+    files.push(outputName)
+    const { code, log } = run(core, buildEncodeArgs({
+      inputArgs: getInputArgs(inputName, null),
+      coverName,
+      settings,
+      filters,
+      sourceSampleRate: source.sampleRate,
+      sourceChannels: source.channels,
+      restoreSampleRate: false,
+      stereoMode: options.stereoMode,
+      stripTags: options.stripTags,
+      metadata: [],
+      threads: 1,
+      outputName,
+    }))
+    if (code !== 0) {
+      throw new Error(log.filter(line => line.trim()).pop() ?? `ffmpeg exited with code ${code}`)
+    }
+
+    const output = core.FS.readFile(outputName)
+    const stem = basename(path).replace(/\.[^/.]+$/, '')
+    entry.output = join(options.outDir, uniqueFileName(formatOutputName(stem, settings), usedNames))
+    entry.outputSize = output.length
+    await writeFile(entry.output, output)
+  } catch (err) {
+    entry.error = err instanceof Error ? err.message : String(err)
+  } finally {
+    for (const name of files) {
+      try {
+        core.FS.unlink(name)
+      } catch {
+        // Never written
+      }
+    }
+  }
+  return entry
+}
+
+async function main(): Promise<number> {
+  let options: Options | null
+  try {
+    options = await parseOptions(process.argv.slice(2))
+  } catch (err) {
+    console.error(`mp3-compress: ${err instanceof Error ? err.message : err}\n\n${USAGE}`)
+    return 2
+  }
+  if (!options) {
+    console.log(USAGE)
+    return 0
+  }
+
+  await mkdir(options.outDir, { recursive: true })
+  const core = await loadCore()
+  const usedNames = new Set<string>()
+  const report: ReportEntry[] = []
+  for (const path of options.inputs) {
+    const entry = await compressFile(core, path, options, usedNames)
+    report.push(entry)
+    console.error(entry.error
+      ? `FAILED ${path}: ${entry.error}`
+      : `${path} -> ${entry.output} (${entry.inputSize} -> ${entry.outputSize} bytes)`)
+  }
+
+  if (options.report) {
+    const json = JSON.stringify({ settings: formatSettings(options.settings), files: report }, null, 2)
+    if (options.report === '-') {
+      console.log(json)
+    } else {
+      await writeFile(options.report, `${json}\n`)
+    }
+  }
+  return report.some(entry => entry.error) ? 1 : 0
+}
+
+process.exitCode = await main()
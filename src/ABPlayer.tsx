@@ -0,0 +1,248 @@
+import { useState, useEffect, useMemo, useCallback, KeyboardEvent, RefObject } from 'react'
+import { useI18n } from './useI18n'
+import { TrimRange } from './pipeline'
+
+interface ABPlayerProps {
+  audioRef: RefObject<HTMLAudioElement>
+  original: Blob
+  compressed: Blob
+  // Section of the original the compressed file was made from
+  trim: TrimRange | null
+  // The compressed timeline has gaps cut out and can't be lined up with the original
+  silenceRemoved: boolean
+  // How many dB loudness normalization raised the compressed file over the original
+  gain: number
+}
+
+type Source = 'a' | 'b' | 'x'
+
+interface AbxTrial {
+  // Which source X secretly plays for the current trial
+  xIsA: boolean
+  correct: number
+  total: number
+}
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+// Chance of getting at least `correct` of `total` right by guessing
+function guessProbability(correct: number, total: number): number {
+  let coefficient = 1
+  let sum = 0
+  for (let i = 0; i <= total; i++) {
+    if (i >= correct) sum += coefficient
+    coefficient = (coefficient * (total - i)) / (i + 1)
+  }
+  return sum / 2 ** total
+}
+
+export default function ABPlayer({ audioRef, original, compressed, trim, silenceRemoved, gain }: ABPlayerProps) {
+  const { t } = useI18n()
+  const [source, setSource] = useState<Source>('a')
+  const [playing, setPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [abx, setAbx] = useState<AbxTrial | null>(null)
+
+  const originalUrl = useMemo(() => URL.createObjectURL(original), [original])
+  const compressedUrl = useMemo(() => URL.createObjectURL(compressed), [compressed])
+  useEffect(() => () => URL.revokeObjectURL(originalUrl), [originalUrl])
+  useEffect(() => () => URL.revokeObjectURL(compressedUrl), [compressedUrl])
+
+  // Positions are kept on the compressed file's timeline, which starts at the trim start of the original
+  const offsetOf = useCallback((url: string) => (url === originalUrl ? trim?.start ?? 0 : 0), [originalUrl, trim])
+
+  // The louder of the two is turned down so a level difference doesn't give the source away
+  const volumeOf = useCallback((url: string) => {
+    const louder = url === originalUrl ? -gain : gain
+    return louder > 0 ? 10 ** (-louder / 20) : 1
+  }, [originalUrl, gain])
+
+  const urlFor = useCallback((s: Source) => {
+    const isA = s === 'a' || (s === 'x' && abx?.xIsA)
+    return isA ? originalUrl : compressedUrl
+  }, [abx, originalUrl, compressedUrl])
+
+  // Swap the element's source, resuming at the same passage and play state
+  const loadUrl = useCallback((url: string) => {
+    const audio = audioRef.current
+    if (!audio || audio.src === url) return
+
+    const position = Math.max(0, audio.currentTime - offsetOf(audio.src))
+    const wasPlaying = !audio.paused
+    audio.src = url
+    audio.volume = volumeOf(url)
+    audio.addEventListener('loadedmetadata', () => {
+      const time = position + offsetOf(url)
+      audio.currentTime = Math.min(time, audio.duration || time)
+      if (wasPlaying) audio.play().catch(() => setPlaying(false))
+    }, { once: true })
+  }, [audioRef, offsetOf, volumeOf])
+
+  const switchTo = useCallback((next: Source) => {
+    setSource(next)
+    loadUrl(urlFor(next))
+  }, [loadUrl, urlFor])
+
+  const togglePlay = useCallback(() => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (audio.paused) {
+      audio.play().catch(() => setPlaying(false))
+    } else {
+      audio.pause()
+    }
+  }, [audioRef])
+
+  // Load the original when the compared pair changes, and keep the UI in sync with the element
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.pause()
+    audio.src = originalUrl
+    audio.volume = volumeOf(originalUrl)
+    setSource('a')
+    setCurrentTime(0)
+
+    const onLoaded = () => {
+      audio.currentTime = offsetOf(originalUrl)
+    }
+    audio.addEventListener('loadedmetadata', onLoaded, { once: true })
+
+    const onTime = () => {
+      const isOriginal = audio.src === originalUrl
+      // The original goes on past the trimmed end; stop where the compressed file does
+      if (isOriginal && trim && audio.currentTime >= trim.end && !audio.paused) {
+        audio.pause()
+      }
+      setCurrentTime(Math.max(0, audio.currentTime - offsetOf(audio.src)))
+    }
+    const onDuration = () => setDuration(audio.src === originalUrl && trim ? trim.end - trim.start : audio.duration || 0)
+    const onPlay = () => setPlaying(true)
+    const onPause = () => setPlaying(false)
+    audio.addEventListener('timeupdate', onTime)
+    audio.addEventListener('durationchange', onDuration)
+    audio.addEventListener('play', onPlay)
+    audio.addEventListener('pause', onPause)
+    return () => {
+      audio.pause()
+      audio.removeEventListener('loadedmetadata', onLoaded)
+      audio.removeEventListener('timeupdate', onTime)
+      audio.removeEventListener('durationchange', onDuration)
+      audio.removeEventListener('play', onPlay)
+      audio.removeEventListener('pause', onPause)
+      audio.removeAttribute('src')
+      audio.volume = 1
+    }
+  }, [audioRef, originalUrl, compressedUrl, offsetOf, volumeOf, trim])
+
+  // Hotkeys while the player has focus: A / B / X pick a source, T toggles between A and B, Space plays or pauses
+  const handleKey = (e: KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement
+    if (target.closest('input, select, textarea') || e.ctrlKey || e.metaKey || e.altKey) return
+    const key = e.key.toLowerCase()
+    if (key === 'a' || key === 'b' || (key === 'x' && abx)) {
+      switchTo(key)
+    } else if (key === 't') {
+      switchTo(source === 'a' ? 'b' : 'a')
+    } else if (key === ' ') {
+      // Also keeps Space from clicking the focused button
+      e.preventDefault()
+      togglePlay()
+    }
+  }
+
+  const startAbx = () => {
+    setAbx({ xIsA: Math.random() < 0.5, correct: 0, total: 0 })
+  }
+
+  const answerAbx = (answerA: boolean) => {
+    if (!abx) return
+    const next = {
+      xIsA: Math.random() < 0.5,
+      correct: abx.correct + (answerA === abx.xIsA ? 1 : 0),
+      total: abx.total + 1,
+    }
+    setAbx(next)
+    // X now points at a freshly drawn source; reload it if it is selected
+    if (source === 'x') {
+      loadUrl(next.xIsA ? originalUrl : compressedUrl)
+    }
+  }
+
+  const stopAbx = () => {
+    setAbx(null)
+    if (source === 'x') switchTo('a')
+  }
+
+  return (
+    <div className="ab-player" tabIndex={0} onKeyDown={handleKey}>
+      <div className="ab-header">
+        <span>{t('abCompare')}</span>
+        <span className="ab-hotkeys">{t('abHotkeys')}</span>
+      </div>
+
+      <div className="toggle-row">
+        <button className={`toggle-btn ${source === 'a' ? 'selected' : ''}`} onClick={() => switchTo('a')}>
+          A · {t('abOriginal')}
+        </button>
+        <button className={`toggle-btn ${source === 'b' ? 'selected' : ''}`} onClick={() => switchTo('b')}>
+          B · {t('abCompressed')}
+        </button>
+        {abx && (
+          <button className={`toggle-btn ${source === 'x' ? 'selected' : ''}`} onClick={() => switchTo('x')}>
+            X · ?
+          </button>
+        )}
+      </div>
+
+      <div className="ab-transport">
+        <button className="ab-play" onClick={togglePlay}>{playing ? t('pause') : t('play')}</button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step="any"
+          value={Math.min(currentTime, duration || 0)}
+          onChange={(e) => {
+            const audio = audioRef.current
+            if (audio) audio.currentTime = Number(e.target.value) + offsetOf(audio.src)
+          }}
+        />
+        <span className="ab-time">{formatTime(currentTime)} / {formatTime(duration)}</span>
+      </div>
+
+      {gain !== 0 && (
+        <div className="custom-hint">{t('abLevelMatched').replace('{gain}', Math.abs(gain).toFixed(1))}</div>
+      )}
+
+      {abx ? (
+        <div className="abx-panel">
+          <div className="abx-question">{t('abxQuestion')}</div>
+          <div className="toggle-row">
+            <button className="toggle-btn" onClick={() => answerAbx(true)}>{t('abxIsA')}</button>
+            <button className="toggle-btn" onClick={() => answerAbx(false)}>{t('abxIsB')}</button>
+          </div>
+          <div className="abx-score">
+            {t('abxScore')
+              .replace('{correct}', String(abx.correct))
+              .replace('{total}', String(abx.total))}
+            {abx.total > 0 && (
+              <> · {t('abxGuessChance').replace('{chance}', (guessProbability(abx.correct, abx.total) * 100).toFixed(1))}</>
+            )}
+          </div>
+          <button className="ab-link" onClick={stopAbx}>{t('abxStop')}</button>
+        </div>
+      ) : silenceRemoved ? (
+        // A blind test is pointless when the two can be told apart by their gaps
+        <div className="custom-hint">{t('abSilenceRemoved')}</div>
+      ) : (
+        <button className="ab-link" onClick={startAbx}>{t('abxStart')}</button>
+      )}
+    </div>
+  )
+}
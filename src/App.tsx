@@ -1,9 +1,32 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
-import { FFmpeg } from '@ffmpeg/ffmpeg'
-import { fetchFile, toBlobURL } from '@ffmpeg/util'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
 import { useI18n } from './useI18n'
+import { createZip, fitsInZip } from './zip'
+import {
+  createWorker, execLogged, getMaxPoolSize, getThreadCount, PoolWorker, removeFiles, restartWorker, writeInput, writeInputs,
+} from './ffmpegPool'
+import { detectSourceFormat, getExtension, inputAccept, isSupportedInput } from './formats'
+import { codecs, EncodeSettings, getCodec, nearestValue, OutputCodec, RateControl } from './codecs'
+import { buildFilterChain, createFilterChain, FilterParam, FilterStage, getAudioFilter } from './audioFilters'
+import { AudioTags, CoverArt, emptyTags, readId3Tags } from './id3'
+import { MpegInfo, readMpegInfo } from './mpegAudio'
+import {
+  createPresetId, exportPresets, loadCustomSettings, loadPresetLibrary, parsePresetFile, PresetIssue, PresetLibrary,
+  saveCustomSettings, savePresetLibrary, UserPreset,
+} from './userPresets'
+import { analyzeQuality, analyzeSource, computePeaks, decodeAudio, QualityReport, SourceAnalysis } from './audioAnalysis'
+import Waveform from './Waveform'
+import ABPlayer from './ABPlayer'
+import Spectrogram from './Spectrogram'
+import {
+  buildEncodeArgs, DownmixMethod, downmixFilters, fitToCodec, formatOutputName, formatPartName, formatSettings, getInputArgs,
+  getInputName, getPresetSettings, getTargetSizeSteps, lowerSettings, monoSettings, parseAudioStream, presets, StereoMode, stereoModeOptionNames,
+  TrimRange, uniqueFileName, usesVbrQuality, vbrLevels,
+} from './pipeline'
 import GithubLinkBanner from './vibe-design-system/components/GithubLinkBanner'
 
+// File Info values that are guessed rather than read from the file
+type EstimatedField = 'duration' | 'bitrate' | 'sampleRate' | 'channels' | 'frameCount'
+
 interface FileInfo {
   name: string
   size: number
@@ -11,29 +34,336 @@ interface FileInfo {
   bitrate: number
   sampleRate: number
   channels: number
+  container: string | null
+  codec: string | null
+  // Too large to decode or copy into memory; read from disk and described from its headers
+  streamed: boolean
+  // Frame-level details of MPEG audio files
+  mpeg: MpegInfo | null
+  estimated: EstimatedField[]
 }
 
-interface Preset {
+// Skipped jobs keep the original file because the output wasn't smaller
+type JobStatus = 'pending' | 'processing' | 'done' | 'skipped' | 'failed'
+
+// What to do with an output that isn't smaller than the original by the required margin
+type SizePolicy = 'off' | 'keep' | 'retry'
+
+// How the output is cut into parts; 'off' keeps a single file
+type SplitMode = 'off' | 'duration' | 'size'
+
+// How merged inputs meet: a pause between them or an overlapping crossfade
+type JoinMode = 'gap' | 'crossfade'
+
+interface LoudnessPreset {
   id: string
-  nameKey: string
-  descKey: string
-  bitrate: number
-  sampleRate: number | null
-  channels: number | null
-}
-
-const presets: Preset[] = [
-  { id: 'lossless', nameKey: 'presetLossless', descKey: 'presetLosslessDesc', bitrate: 320, sampleRate: null, channels: 2 },
-  { id: 'high', nameKey: 'presetHigh', descKey: 'presetHighDesc', bitrate: 256, sampleRate: 44100, channels: 2 },
-  { id: 'standard', nameKey: 'presetStandard', descKey: 'presetStandardDesc', bitrate: 192, sampleRate: 44100, channels: 2 },
-  { id: 'medium', nameKey: 'presetMedium', descKey: 'presetMediumDesc', bitrate: 128, sampleRate: 44100, channels: 2 },
-  { id: 'compact', nameKey: 'presetCompact', descKey: 'presetCompactDesc', bitrate: 96, sampleRate: 32000, channels: 2 },
-  { id: 'voice', nameKey: 'presetVoice', descKey: 'presetVoiceDesc', bitrate: 64, sampleRate: 22050, channels: 1 },
-  { id: 'minimal', nameKey: 'presetMinimal', descKey: 'presetMinimalDesc', bitrate: 32, sampleRate: 16000, channels: 1 },
-  { id: 'custom', nameKey: 'presetCustom', descKey: 'presetCustomDesc', bitrate: 128, sampleRate: 44100, channels: 2 },
+  labelKey: string
+  integrated: number
+  truePeak: number
+}
+
+interface LoudnessReport {
+  inputIntegrated: number
+  inputTruePeak: number
+  outputIntegrated: number
+  outputTruePeak: number
+}
+
+interface SilenceRegion {
+  start: number
+  end: number
+}
+
+// silencedetect result, tied to the parameters it was run with
+interface SilenceScan {
+  threshold: number
+  minDuration: number
+  regions: SilenceRegion[]
+}
+
+// One part of a split output, placed on the output's timeline
+interface OutputPart {
+  blob: Blob
+  start: number
+  end: number
+}
+
+// A merged input's place in the merged file, written as an ID3 CHAP frame
+interface Chapter {
+  title: string
+  start: number
+  end: number
+}
+
+interface MergeResult {
+  blob: Blob
+  name: string
+  settings: EncodeSettings
+  chapters: Chapter[]
+  // The size policy wanted a smaller file than the lowest retry gave
+  oversized: boolean
+}
+
+interface CompressResult {
+  blob: Blob
+  size: number
+  settings: EncodeSettings
+  targetSize: number | null
+  loudness: LoudnessReport | null
+  // Output duration read from the encoder log
+  duration: number | null
+  // Filled in on request from the result section
+  quality: QualityReport | null
+  // Size of the discarded output when the size policy kept the original; `blob` is then the original file
+  encodedSize: number | null
+  // Set when split mode cut the output; `blob` still holds the whole output
+  parts: OutputPart[] | null
+  // Silence removal shortened the output, so its positions no longer line up with the source
+  silenceRemoved: boolean
+  // The output missed the size policy but was kept, since the original lacks the trim or edits
+  oversized: boolean
+}
+
+interface Job {
+  id: string
+  file: File
+  info: FileInfo | null
+  status: JobStatus
+  progress: number
+  result: CompressResult | null
+  error: string | null
+  // Tags and cover as edited by the user, and as read from the file
+  tags: AudioTags
+  originalTags: AudioTags
+  cover: CoverArt | null
+  originalCover: CoverArt | null
+  // Waveform peaks from the decoded source; null if decoding failed
+  peaks: Float32Array | null
+  // Content analysis for the preset recommendation; also null if decoding failed
+  analysis: SourceAnalysis | null
+  trim: TrimRange | null
+  silence: SilenceScan | null
+}
+
+const tagFields: { key: keyof AudioTags; labelKey: string; metadataKey: string }[] = [
+  { key: 'title', labelKey: 'tagTitle', metadataKey: 'title' },
+  { key: 'artist', labelKey: 'tagArtist', metadataKey: 'artist' },
+  { key: 'album', labelKey: 'tagAlbum', metadataKey: 'album' },
+  { key: 'track', labelKey: 'tagTrack', metadataKey: 'track' },
+  { key: 'year', labelKey: 'tagYear', metadataKey: 'date' },
+  { key: 'genre', labelKey: 'tagGenre', metadataKey: 'genre' },
+]
+
+const loudnessPresets: LoudnessPreset[] = [
+  { id: 'podcast', labelKey: 'loudnessPodcast', integrated: -16, truePeak: -1.5 },
+  { id: 'streaming', labelKey: 'loudnessStreaming', integrated: -14, truePeak: -1 },
+  { id: 'broadcast', labelKey: 'loudnessBroadcast', integrated: -23, truePeak: -1 },
+]
+
+// loudnorm's default loudness range target; raised to the measured range so pass two stays linear
+const LOUDNORM_LRA = 11
+
+// Inputs above this size, or longer than MAX_DECODE_SECONDS, are streamed instead of decoded
+const STREAM_THRESHOLD_BYTES = 256 * 1024 * 1024
+// About 1 GB of decoded stereo float PCM at 48 kHz
+const MAX_DECODE_SECONDS = 45 * 60
+// The wasm heap is 32-bit; the output and ffmpeg's own buffers have to fit next to each other
+const MAX_INPUT_BYTES = 2 * 1024 * 1024 * 1024
+const MAX_OUTPUT_BYTES = 1024 * 1024 * 1024
+
+// loudnorm prints its measurements as a JSON block at the end of the log
+function parseLoudnormJson(log: string): Record<string, string> | null {
+  const matches = log.match(/\{[^{}]*"input_i"[^{}]*\}/g)
+  if (!matches) return null
+  try {
+    return JSON.parse(matches[matches.length - 1])
+  } catch {
+    return null
+  }
+}
+
+// Containers whose audio is bare MPEG frames
+const mpegContainers = ['MP1', 'MP2', 'MP3']
+
+const channelModeKeys: Record<MpegInfo['channelMode'], string> = {
+  stereo: 'stereo',
+  joint: 'jointStereo',
+  dual: 'dualChannel',
+  mono: 'mono',
+}
+
+const jobStatusKeys: Record<JobStatus, string> = {
+  pending: 'statusPending',
+  processing: 'statusProcessing',
+  done: 'statusDone',
+  skipped: 'statusSkipped',
+  failed: 'statusFailed',
+}
+
+const sizePolicyOptions: { value: SizePolicy; labelKey: string }[] = [
+  { value: 'off', labelKey: 'sizePolicyOff' },
+  { value: 'keep', labelKey: 'sizePolicyKeep' },
+  { value: 'retry', labelKey: 'sizePolicyRetry' },
+]
+
+const splitModeOptions: { value: SplitMode; labelKey: string }[] = [
+  { value: 'off', labelKey: 'splitOff' },
+  { value: 'duration', labelKey: 'splitDuration' },
+  { value: 'size', labelKey: 'splitSize' },
+]
+
+const joinModeOptions: { value: JoinMode; labelKey: string }[] = [
+  { value: 'gap', labelKey: 'joinGap' },
+  { value: 'crossfade', labelKey: 'joinCrossfade' },
+]
+
+// Worker job id while a merge runs, so cancelling finds the instance
+const MERGE_JOB_ID = 'merge'
+const CHAPTERS_FILE = 'chapters.txt'
+
+// silencedetect settings for finding cut points, independent of silence removal
+const SPLIT_SILENCE_THRESHOLD = -40
+const SPLIT_SILENCE_MIN_DURATION = 0.4
+// Room for the tags and the Xing header that every part repeats
+const PART_HEADER_BYTES = 16 * 1024
+// Parts are never shorter than this, whatever the size limit
+const MIN_PART_SECONDS = 10
+
+const downmixOptions: { value: DownmixMethod; labelKey: string }[] = [
+  { value: 'average', labelKey: 'downmixAverage' },
+  { value: 'left', labelKey: 'downmixLeft' },
+  { value: 'right', labelKey: 'downmixRight' },
+]
+
+const stereoModeOptions: { value: StereoMode; labelKey: string }[] = [
+  { value: 'auto', labelKey: 'stereoModeAuto' },
+  { value: 'joint', labelKey: 'stereoModeJoint' },
+  { value: 'stereo', labelKey: 'stereoModeStereo' },
 ]
 
-const bitrateOptions = [320, 256, 192, 160, 128, 112, 96, 80, 64, 48, 32]
+const rateControlOptions: { value: RateControl; nameKey: string; descKey: string }[] = [
+  { value: 'cbr', nameKey: 'rateCbr', descKey: 'rateCbrDesc' },
+  { value: 'vbr', nameKey: 'rateVbr', descKey: 'rateVbrDesc' },
+  { value: 'abr', nameKey: 'rateAbr', descKey: 'rateAbrDesc' },
+]
+
+// Codecs that keep every sample; other sources have already been through a lossy encoder
+const losslessCodecs = ['FLAC', 'ALAC']
+
+function isLossySource(info: FileInfo): boolean {
+  if (info.codec && (info.codec.startsWith('PCM') || losslessCodecs.includes(info.codec))) return false
+  return info.bitrate < 400
+}
+
+// Re-encoding a lossy source above its bitrate only makes the file larger
+function wouldUpscale(settings: EncodeSettings, info: FileInfo): boolean {
+  if (!isLossySource(info)) return false
+  return getCodec(settings.codec).bitrates.length === 0 || settings.bitrate > info.bitrate * 1.05
+}
+
+// Music presets from largest to smallest
+const musicPresetIds = ['standard', 'medium', 'compact', 'minimal']
+
+/**
+ * Built-in preset for the source: speech gets the voice preset; music starts
+ * from what its frequency range needs, one step lower for mono, and steps down
+ * further until the preset's bitrate doesn't exceed a lossy source's.
+ */
+function recommendPreset(info: FileInfo, analysis: SourceAnalysis | null): string {
+  const fits = (id: string) => !isLossySource(info) || presets.find(p => p.id === id)!.bitrate <= info.bitrate * 1.05
+  if (analysis?.speech) {
+    return fits('voice') ? 'voice' : 'minimal'
+  }
+  const ceiling = analysis?.frequencyCeiling ?? 20000
+  let index = ceiling >= 16000 ? 0 : ceiling >= 11000 ? 1 : 2
+  if (info.channels === 1 || analysis?.effectivelyMono) index++
+  return musicPresetIds.slice(index).find(fits) ?? 'minimal'
+}
+
+function userPresetSettings({ codec, rateControl, bitrate, vbrQuality, sampleRate, channels }: UserPreset): EncodeSettings {
+  return { codec, rateControl, bitrate, vbrQuality, sampleRate, channels }
+}
+
+// A stereo source whose analysis says mono loses nothing: identical channels or one silent channel
+function canDownmix(info: FileInfo, analysis: SourceAnalysis | null): boolean {
+  return info.channels === 2 && !!analysis && (analysis.nearlyMono || analysis.deadChannel !== null)
+}
+
+function estimateSize(bitrate: number, duration: number): number {
+  return Math.round(bitrate * 125 * duration)
+}
+
+// VBR and lossless output sizes depend on the material, so they are estimated as a range
+function estimateSizeRange(settings: EncodeSettings, info: FileInfo): [number, number] {
+  if (settings.codec === 'flac') {
+    // FLAC typically lands between 40% and 70% of 16-bit PCM
+    const pcmSize = (settings.sampleRate ?? info.sampleRate) * (settings.channels ?? info.channels) * 2 * info.duration
+    return [Math.round(pcmSize * 0.4), Math.round(pcmSize * 0.7)]
+  }
+  if (usesVbrQuality(settings)) {
+    const level = vbrLevels[settings.vbrQuality]
+    return [estimateSize(level.minBitrate, info.duration), estimateSize(level.maxBitrate, info.duration)]
+  }
+  const size = estimateSize(settings.bitrate, info.duration)
+  return [size, size]
+}
+
+// Index of the highest step whose estimate fits the target, or the lowest step if none does
+function findTargetStep(steps: EncodeSettings[], targetBytes: number, info: FileInfo): number {
+  const index = steps.findIndex(step => estimateSizeRange(step, info)[1] <= targetBytes)
+  return index === -1 ? steps.length - 1 : index
+}
+
+// File info with the duration reduced to what will be encoded, for size estimates
+function applyTrim(info: FileInfo, trim: TrimRange | null, silence: SilenceScan | null = null): FileInfo {
+  const duration = (trim ? trim.end - trim.start : info.duration) - (silence ? totalSilence(silence.regions) : 0)
+  return { ...info, duration: Math.max(0, duration) }
+}
+
+// Pair up silencedetect's silence_start/silence_end lines; timestamps are relative to the trim start
+function parseSilenceLog(log: string, offset: number, end: number): SilenceRegion[] {
+  const regions: SilenceRegion[] = []
+  let start: number | null = null
+  for (const match of log.matchAll(/silence_(start|end): (-?[\d.]+)/g)) {
+    const time = Math.max(0, Number(match[2])) + offset
+    if (match[1] === 'start') {
+      start = time
+    } else if (start !== null) {
+      regions.push({ start, end: Math.min(time, end) })
+      start = null
+    }
+  }
+  // Silence running to the end of the input never gets a silence_end line
+  if (start !== null && end > start) {
+    regions.push({ start, end })
+  }
+  return regions
+}
+
+function totalSilence(regions: SilenceRegion[]): number {
+  return regions.reduce((sum, region) => sum + region.end - region.start, 0)
+}
+
+// Last "time=" progress stamp in an ffmpeg log, in seconds
+function parseLogTime(log: string): number | null {
+  const matches = [...log.matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)]
+  const last = matches[matches.length - 1]
+  return last ? Number(last[1]) * 3600 + Number(last[2]) * 60 + Number(last[3]) : null
+}
+
+// Length reported by an <audio> element; null if the browser can't play the file or gives no finite length
+function readElementDuration(file: File): Promise<number | null> {
+  return new Promise((resolve) => {
+    const audio = new Audio()
+    audio.src = URL.createObjectURL(file)
+    const done = (duration: number | null) => {
+      URL.revokeObjectURL(audio.src)
+      resolve(duration)
+    }
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : null)
+    audio.onerror = () => done(null)
+  })
+}
 
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return bytes + ' B'
@@ -47,6 +377,103 @@ function formatDuration(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`
 }
 
+function getOutputFileName(job: Job): string {
+  // A kept original is delivered exactly as it was added
+  if (job.result!.encodedSize !== null) return job.file.name
+  return formatOutputName(job.file.name.replace(/\.[^/.]+$/, ''), job.result!.settings)
+}
+
+/**
+ * Cut times for parts of at most `partDuration` seconds. With silences, each
+ * cut moves back to the middle of the latest silence in the `window` seconds
+ * before it, so no part grows past the limit.
+ */
+function planCuts(duration: number, partDuration: number, silences: SilenceRegion[], window: number): number[] {
+  const cuts: number[] = []
+  let position = partDuration
+  while (position < duration) {
+    const earliest = Math.max((cuts[cuts.length - 1] ?? 0) + MIN_PART_SECONDS, position - window)
+    const silence = silences.filter(region => {
+      const middle = (region.start + region.end) / 2
+      return middle >= earliest && middle <= position
+    }).pop()
+    const cut = silence ? (silence.start + silence.end) / 2 : position
+    cuts.push(cut)
+    position = cut + partDuration
+  }
+  return cuts
+}
+
+/**
+ * Chapters for inputs of the given durations joined in order. A gap belongs
+ * to the chapter before it; with a crossfade, each chapter starts where its
+ * fade-in begins.
+ */
+function planChapters(titles: string[], durations: number[], gap: number, overlap: number): Chapter[] {
+  let start = 0
+  return durations.map((duration, i) => {
+    const last = i === durations.length - 1
+    const chapter = { title: titles[i], start, end: start + duration + (last ? 0 : gap - overlap) }
+    start = chapter.end
+    return chapter
+  })
+}
+
+// FFMETADATA file with one chapter per input; values escape '=', ';', '#', '\' and newlines
+function buildChapterFile(chapters: Chapter[]): string {
+  const escape = (value: string) => value.replace(/[=;#\\\n]/g, '\\$&')
+  return [';FFMETADATA1', ...chapters.flatMap(chapter => [
+    '[CHAPTER]',
+    'TIMEBASE=1/1000',
+    `START=${Math.round(chapter.start * 1000)}`,
+    `END=${Math.round(chapter.end * 1000)}`,
+    `title=${escape(chapter.title)}`,
+  ])].join('\n') + '\n'
+}
+
+/**
+ * filter_complex graph that brings every input to one sample rate and layout,
+ * joins them with gaps or crossfades and runs `filters` on the result, which
+ * is labelled [out].
+ */
+function buildMergeGraph(count: number, sampleRate: number, layout: 'mono' | 'stereo', gap: number, overlap: number, filters: string[]): string {
+  const format = `aresample=${sampleRate},aformat=sample_fmts=fltp:channel_layouts=${layout}`
+  const graph = Array.from({ length: count }, (_, i) => (
+    `[${i}:a:0]${format}${gap > 0 && i < count - 1 ? `,apad=pad_dur=${gap.toFixed(3)}` : ''}[a${i}]`
+  ))
+  if (overlap > 0) {
+    for (let i = 1; i < count; i++) {
+      const previous = i === 1 ? '[a0]' : `[x${i - 1}]`
+      graph.push(`${previous}[a${i}]acrossfade=d=${overlap.toFixed(3)}:c1=tri:c2=tri${i === count - 1 ? '[joined]' : `[x${i}]`}`)
+    }
+  } else {
+    graph.push(`${Array.from({ length: count }, (_, i) => `[a${i}]`).join('')}concat=n=${count}:v=0:a=1[joined]`)
+  }
+  graph.push(`[joined]${filters.length > 0 ? filters.join(',') : 'anull'}[out]`)
+  return graph.join(';')
+}
+
+function getPartFileName(job: Job, index: number): string {
+  return formatPartName(getOutputFileName(job), index)
+}
+
+// Files a finished job delivers: its parts when split, otherwise the single output
+function getDownloadFiles(job: Job): { name: string; blob: Blob }[] {
+  const { parts, blob } = job.result!
+  return parts ? parts.map((part, index) => ({ name: getPartFileName(job, index), blob: part.blob })) : [{ name: getOutputFileName(job), blob }]
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
 function LanguageSelector() {
   const { language, setLanguage, languages } = useI18n()
   const [isOpen, setIsOpen] = useState(false)
@@ -96,24 +523,129 @@ function LanguageSelector() {
 function App() {
   const { t } = useI18n()
 
-  const [ffmpeg, setFfmpeg] = useState<FFmpeg | null>(null)
   const [loaded, setLoaded] = useState(false)
   const [loading, setLoading] = useState(true)
-  const [file, setFile] = useState<File | null>(null)
-  const [fileInfo, setFileInfo] = useState<FileInfo | null>(null)
+  const [jobs, setJobs] = useState<Job[]>([])
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
   const [selectedPreset, setSelectedPreset] = useState<string>('medium')
-  const [customBitrate, setCustomBitrate] = useState<number>(128)
-  const [customSampleRate, setCustomSampleRate] = useState<number>(44100)
-  const [customChannels, setCustomChannels] = useState<number>(2)
+  const [initialCustom] = useState(loadCustomSettings)
+  const [customBitrate, setCustomBitrate] = useState<number>(initialCustom?.bitrate ?? 128)
+  const [customSampleRate, setCustomSampleRate] = useState<number>(initialCustom?.sampleRate ?? 44100)
+  const [customChannels, setCustomChannels] = useState<number>(initialCustom?.channels ?? 2)
+  const [customVbrQuality, setCustomVbrQuality] = useState<number>(initialCustom?.vbrQuality ?? 4)
+  const [presetLibrary, setPresetLibrary] = useState<PresetLibrary>(loadPresetLibrary)
+  const [presetName, setPresetName] = useState('')
+  // User preset whose settings are loaded into the Custom panel for editing
+  const [editingPresetId, setEditingPresetId] = useState<string | null>(null)
+  const [draggedPresetId, setDraggedPresetId] = useState<string | null>(null)
+  const [rateControl, setRateControl] = useState<RateControl>('cbr')
+  const [outputCodec, setOutputCodec] = useState<OutputCodec>('mp3')
+  const [targetSizeValue, setTargetSizeValue] = useState<number>(10)
+  const [targetSizeUnit, setTargetSizeUnit] = useState<'MB' | 'KB'>('MB')
   const [processing, setProcessing] = useState(false)
-  const [progress, setProgress] = useState(0)
   const [progressText, setProgressText] = useState('')
-  const [result, setResult] = useState<{ blob: Blob; size: number } | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [dragging, setDragging] = useState(false)
+  const [zipping, setZipping] = useState(false)
+  const [draggedJobId, setDraggedJobId] = useState<string | null>(null)
+  const [joinMode, setJoinMode] = useState<JoinMode>('gap')
+  const [joinSeconds, setJoinSeconds] = useState<number>(0)
+  const [mergeResult, setMergeResult] = useState<MergeResult | null>(null)
+  const [stripTags, setStripTags] = useState(false)
+  const [loudnormEnabled, setLoudnormEnabled] = useState(false)
+  const [loudnormTarget, setLoudnormTarget] = useState<number>(-16)
+  const [loudnormTruePeak, setLoudnormTruePeak] = useState<number>(-1.5)
+  const [filterChain, setFilterChain] = useState<FilterStage[]>(() => createFilterChain(false))
+  const [downmixMethod, setDownmixMethod] = useState<DownmixMethod>('average')
+  const [stereoMode, setStereoMode] = useState<StereoMode>('auto')
+  // Encode sources that analyze as mono in mono, whatever the preset says
+  const [autoMono, setAutoMono] = useState(false)
+  const [silenceEnabled, setSilenceEnabled] = useState(false)
+  const [silenceThreshold, setSilenceThreshold] = useState<number>(-50)
+  const [silenceMinDuration, setSilenceMinDuration] = useState<number>(1)
+  const [analyzing, setAnalyzing] = useState(false)
+  const [poolSize, setPoolSize] = useState<number>(1)
+  const [sizePolicy, setSizePolicy] = useState<SizePolicy>('off')
+  // Percent the output must be smaller than the original under the size policy
+  const [minSavings, setMinSavings] = useState<number>(5)
+  const [splitMode, setSplitMode] = useState<SplitMode>('off')
+  const [splitMinutes, setSplitMinutes] = useState<number>(30)
+  const [splitSizeMB, setSplitSizeMB] = useState<number>(25)
+  const [splitAtSilence, setSplitAtSilence] = useState(true)
+  // Seconds before each cut point searched for a silence
+  const [splitWindow, setSplitWindow] = useState<number>(30)
 
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const coverInputRef = useRef<HTMLInputElement>(null)
+  const presetFileInputRef = useRef<HTMLInputElement>(null)
   const audioRef = useRef<HTMLAudioElement>(null)
+  const jobsRef = useRef<Job[]>([])
+  // FFmpeg instances; the first is loaded on start, the rest when a batch needs them
+  const workersRef = useRef<PoolWorker[]>([])
+  // FFmpeg instance for probing inputs the browser can't read, and the probe running on it
+  const probeWorkerRef = useRef<PoolWorker | null>(null)
+  const probeQueueRef = useRef<Promise<unknown>>(Promise.resolve())
+  // Stops the queue from handing out further jobs
+  const cancelRef = useRef(false)
+
+  const activeJob = jobs.find(j => j.id === activeJobId) ?? null
+  const file = activeJob?.file ?? null
+  const fileInfo = activeJob?.info ?? null
+  const result = activeJob?.result ?? null
+  const pendingCount = jobs.filter(j => j.status === 'pending').length
+  const finishedCount = jobs.filter(j => j.status === 'done' || j.status === 'skipped' || j.status === 'failed').length
+  const doneCount = jobs.filter(j => j.result).length
+  const tagsEditable = activeJob?.status === 'pending' && !processing
+  const maxPoolSize = useMemo(() => getMaxPoolSize(), [])
+  // Prefix for File Info values that are not read from the file
+  const estimatedMark = (field: EstimatedField) => (fileInfo?.estimated.includes(field) ? '≈ ' : '')
+  // A scan only counts if it was made with the current settings
+  const activeSilence = silenceEnabled && activeJob?.silence?.threshold === silenceThreshold
+    && activeJob.silence.minDuration === silenceMinDuration ? activeJob.silence : null
+  const targetSizeBytes = Math.round(targetSizeValue * (targetSizeUnit === 'MB' ? 1024 * 1024 : 1024))
+  const selectedCodec = getCodec(outputCodec)
+  const targetSizeSteps = useMemo(() => getTargetSizeSteps(outputCodec, rateControl), [outputCodec, rateControl])
+  const customSettings = useMemo(() => fitToCodec({
+    codec: outputCodec,
+    rateControl,
+    bitrate: customBitrate,
+    vbrQuality: customVbrQuality,
+    sampleRate: customSampleRate,
+    channels: customChannels,
+  }), [outputCodec, rateControl, customBitrate, customVbrQuality, customSampleRate, customChannels])
+  // Settings of the selected preset; target-size mode picks its own per file
+  const presetSettings = useMemo(() => {
+    const userPreset = presetLibrary.presets.find(p => p.id === selectedPreset)
+    if (userPreset) return fitToCodec(userPresetSettings(userPreset))
+    if (selectedPreset === 'custom') return customSettings
+    return getPresetSettings(presets.find(p => p.id === selectedPreset)!, outputCodec, rateControl)
+  }, [presetLibrary, selectedPreset, customSettings, outputCodec, rateControl])
+  // Built-in and user presets in the user's order; ids missing from the order keep their natural place at the end
+  const presetCards = useMemo(() => {
+    const cards = [
+      ...presets.map(p => ({ id: p.id, name: t(p.nameKey), description: t(p.descKey), user: null as UserPreset | null })),
+      ...presetLibrary.presets.map(p => ({ id: p.id, name: p.name, description: formatSettings(userPresetSettings(p)), user: p })),
+    ]
+    const { order } = presetLibrary
+    const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length)
+    return cards.sort((a, b) => rank(a.id) - rank(b.id))
+  }, [presetLibrary, t])
+  // Presets that would re-encode the active lossy source above its bitrate
+  const upscalingPresets = useMemo(() => {
+    const ids = new Set<string>()
+    if (!fileInfo) return ids
+    for (const preset of presets) {
+      if (preset.id === 'target') continue
+      const settings = preset.id === 'custom' ? customSettings : getPresetSettings(preset, outputCodec, rateControl)
+      if (wouldUpscale(settings, fileInfo)) ids.add(preset.id)
+    }
+    for (const preset of presetLibrary.presets) {
+      if (wouldUpscale(userPresetSettings(preset), fileInfo)) ids.add(preset.id)
+    }
+    return ids
+  }, [fileInfo, customSettings, outputCodec, rateControl, presetLibrary])
+  const sourceAnalysis = activeJob?.analysis ?? null
+  const recommendedPreset = fileInfo ? recommendPreset(fileInfo, sourceAnalysis) : null
 
   const sampleRateOptions = [
     { value: 48000, labelKey: 'sr48000' },
@@ -122,33 +654,61 @@ function App() {
     { value: 22050, labelKey: 'sr22050' },
     { value: 16000, labelKey: 'sr16000' },
     { value: 11025, labelKey: 'sr11025' },
-  ]
+  ].filter(sr => selectedCodec.sampleRates.includes(sr.value))
 
   const channelOptions = [
     { value: 2, labelKey: 'stereo' },
     { value: 1, labelKey: 'mono' },
   ]
 
-  // Load FFmpeg
   useEffect(() => {
-    const loadFFmpeg = async () => {
-      try {
-        const ffmpegInstance = new FFmpeg()
+    jobsRef.current = jobs
+  }, [jobs])
 
-        ffmpegInstance.on('progress', ({ progress, time }) => {
-          setProgress(Math.round(progress * 100))
-          if (time > 0) {
-            setProgressText(`${t('processing')} ${formatDuration(time / 1000000)}`)
-          }
-        })
+  useEffect(() => {
+    savePresetLibrary(presetLibrary)
+  }, [presetLibrary])
 
-        const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm'
-        await ffmpegInstance.load({
-          coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-          wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-        })
+  useEffect(() => {
+    saveCustomSettings({ bitrate: customBitrate, vbrQuality: customVbrQuality, sampleRate: customSampleRate, channels: customChannels })
+  }, [customBitrate, customVbrQuality, customSampleRate, customChannels])
+
+  const activeCover = activeJob?.cover ?? null
+  const coverUrl = useMemo(
+    () => (activeCover ? URL.createObjectURL(new Blob([activeCover.data], { type: activeCover.mimeType })) : null),
+    [activeCover],
+  )
+  useEffect(() => () => {
+    if (coverUrl) URL.revokeObjectURL(coverUrl)
+  }, [coverUrl])
 
-        setFfmpeg(ffmpegInstance)
+  // Keep a valid job selected when jobs are removed
+  useEffect(() => {
+    if (activeJobId && !jobs.some(j => j.id === activeJobId)) {
+      setActiveJobId(jobs[0]?.id ?? null)
+    }
+  }, [jobs, activeJobId])
+
+  const updateJob = useCallback((id: string, patch: Partial<Job>) => {
+    setJobs(prev => prev.map(j => (j.id === id ? { ...j, ...patch } : j)))
+  }, [])
+
+  const handleWorkerProgress = useCallback((worker: PoolWorker, progress: number, time: number) => {
+    if (worker.jobId) {
+      updateJob(worker.jobId, { progress: Math.round(progress * 100) })
+    }
+    if (time > 0) {
+      setProgressText(`${t('processing')} ${formatDuration(time / 1000000)}`)
+    }
+  }, [updateJob, t])
+
+  // Load FFmpeg
+  useEffect(() => {
+    const loadFFmpeg = async () => {
+      try {
+        const worker = createWorker(handleWorkerProgress)
+        workersRef.current = [worker]
+        await worker.ready
         setLoaded(true)
       } catch (err) {
         console.error('Failed to load FFmpeg:', err)
@@ -161,178 +721,896 @@ function App() {
     loadFFmpeg()
   }, [])
 
-  // Parse audio file info
-  const parseAudioInfo = useCallback((audioFile: File): Promise<FileInfo> => {
-    return new Promise((resolve, reject) => {
-      const audio = new Audio()
-      audio.src = URL.createObjectURL(audioFile)
-
-      audio.onloadedmetadata = () => {
-        const duration = audio.duration
-        const bitrate = Math.round((audioFile.size * 8) / duration / 1000)
-
-        // Create AudioContext to get detailed info
-        const audioContext = new AudioContext()
-        const reader = new FileReader()
-
-        reader.onload = async (e) => {
-          try {
-            const arrayBuffer = e.target?.result as ArrayBuffer
-            const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
-
-            resolve({
-              name: audioFile.name,
-              size: audioFile.size,
-              duration,
-              bitrate,
-              sampleRate: audioBuffer.sampleRate,
-              channels: audioBuffer.numberOfChannels,
-            })
+  // Parse audio file info; the decoded audio is passed along for the waveform
+  /**
+   * Decode a file with FFmpeg to find its length and stream layout, for files
+   * the browser can't play or can't time (WebM from MediaRecorder reports an
+   * infinite duration). Probes run one at a time on their own instance, apart
+   * from the pool's jobs. Resolves to null if FFmpeg can't read the file.
+   */
+  const probeAudio = useCallback((file: File): Promise<{ duration: number; sampleRate: number; channels: number } | null> => {
+    const probe = async () => {
+      probeWorkerRef.current ??= createWorker(() => {})
+      const worker = probeWorkerRef.current
+      const inputName = getInputName(file.name)
+      try {
+        await worker.ready
+        const inputPath = await writeInput(worker, inputName, file, file.size > STREAM_THRESHOLD_BYTES)
+        const log = await execLogged(worker, ['-i', inputPath, '-map', '0:a:0', '-f', 'null', '-'])
+        const stream = parseAudioStream(log)
+        const duration = parseLogTime(log)
+        return stream && duration ? { ...stream, duration } : null
+      } catch (err) {
+        console.warn('FFmpeg probe failed:', err)
+        return null
+      } finally {
+        await removeFiles(worker, [inputName])
+      }
+    }
+    const result = probeQueueRef.current.then(probe)
+    probeQueueRef.current = result
+    return result
+  }, [])
+
+  const parseAudioInfo = useCallback(async (audioFile: File): Promise<{ info: FileInfo; audioBuffer: AudioBuffer | null }> => {
+    const format = detectSourceFormat(audioFile).catch(() => ({ container: null, codec: null, sampleRate: null, channels: null }))
+    const [elementDuration, { sampleRate, channels, ...source }] = await Promise.all([readElementDuration(audioFile), format])
+
+    // MPEG frames give the exact bitrate and, with a Xing/VBRI header, the exact length
+    const mpeg = source.container && mpegContainers.includes(source.container)
+      ? await readMpegInfo(audioFile).catch(() => null)
+      : null
+    const exactDuration = mpeg && !mpeg.estimated ? mpeg.duration : null
+    // FFmpeg decodes what the browser can't play or time
+    const probe = exactDuration === null && elementDuration === null ? await probeAudio(audioFile) : null
+    const duration = exactDuration ?? elementDuration ?? probe?.duration ?? mpeg?.duration
+    if (!duration) {
+      throw new Error(t('cannotParseAudio'))
+    }
+    const bitrate = Math.round((audioFile.size * 8) / duration / 1000)
+    const streamed = audioFile.size > STREAM_THRESHOLD_BYTES || duration > MAX_DECODE_SECONDS
+
+    // Header values come first; Web Audio fills the gaps for formats the headers don't describe
+    const estimated: EstimatedField[] = []
+    if (!mpeg || (mpeg.estimated && mpeg.rateMode !== 'CBR')) estimated.push('bitrate')
+    if (mpeg?.estimated && !probe) estimated.push('duration', 'frameCount')
+    if (!mpeg && sampleRate === null && !probe) estimated.push('sampleRate')
+    if (!mpeg && channels === null && !probe) estimated.push('channels')
+
+    const info: FileInfo = {
+      name: audioFile.name,
+      size: audioFile.size,
+      duration,
+      bitrate: mpeg?.bitrate ?? bitrate,
+      sampleRate: mpeg?.sampleRate ?? sampleRate ?? probe?.sampleRate ?? 44100,
+      channels: mpeg?.channels ?? channels ?? probe?.channels ?? 2,
+      ...source,
+      streamed,
+      mpeg,
+      estimated,
+    }
+    // A full decode of a large file would exhaust memory
+    if (streamed) {
+      return { info, audioBuffer: null }
+    }
+
+    try {
+      const audioBuffer = await decodeAudio(audioFile)
+
+      // The decoded rate is the AudioContext's, so it stays an estimate; the channel count is real
+      return {
+        info: {
+          ...info,
+          sampleRate: info.estimated.includes('sampleRate') ? audioBuffer.sampleRate : info.sampleRate,
+          channels: info.estimated.includes('channels') ? audioBuffer.numberOfChannels : info.channels,
+          estimated: info.estimated.filter(field => field !== 'channels'),
+        },
+        audioBuffer,
+      }
+    } catch {
+      // Fallback if decodeAudioData fails
+      return { info, audioBuffer: null }
+    }
+  }, [probeAudio, t])
+
+  const handleFilesSelect = useCallback(async (selectedFiles: File[]) => {
+    const audioFiles = selectedFiles.filter(isSupportedInput)
+    setError(audioFiles.length < selectedFiles.length ? t('pleaseSelectAudio') : null)
+    if (audioFiles.length === 0) return
+
+    const newJobs: Job[] = audioFiles.map(f => ({
+      id: crypto.randomUUID(),
+      file: f,
+      info: null,
+      status: 'pending',
+      progress: 0,
+      result: null,
+      error: null,
+      tags: emptyTags,
+      originalTags: emptyTags,
+      cover: null,
+      originalCover: null,
+      peaks: null,
+      analysis: null,
+      trim: null,
+      silence: null,
+    }))
+    setJobs(prev => [...prev, ...newJobs])
+    setActiveJobId(newJobs[0].id)
+
+    // Parse one at a time so large batches don't decode everything at once
+    for (const job of newJobs) {
+      if (job.file.size > MAX_INPUT_BYTES) {
+        updateJob(job.id, { status: 'failed', error: t('fileTooLarge').replace('{limit}', formatFileSize(MAX_INPUT_BYTES)) })
+        continue
+      }
+      try {
+        const { info, audioBuffer } = await parseAudioInfo(job.file)
+        // Keep only the peaks; holding every decoded buffer would exhaust memory on big batches
+        const peaks = audioBuffer ? computePeaks(audioBuffer) : null
+        const analysis = audioBuffer ? analyzeSource(audioBuffer) : null
+        const id3 = await readId3Tags(job.file).catch(() => null)
+        updateJob(job.id, {
+          info,
+          peaks,
+          analysis,
+          ...(id3 && { tags: id3.tags, originalTags: id3.tags, cover: id3.cover, originalCover: id3.cover }),
+        })
+      } catch (err) {
+        const message = t('parseFileError') + ' ' + (err as Error).message
+        setJobs(prev => prev.map(j => (
+          j.id === job.id && j.status === 'pending' ? { ...j, status: 'failed', error: message } : j
+        )))
+      }
+    }
+  }, [parseAudioInfo, updateJob, t])
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault()
+    setDragging(false)
+
+    const droppedFiles = Array.from(e.dataTransfer.files)
+    if (droppedFiles.length > 0) {
+      handleFilesSelect(droppedFiles)
+    }
+  }, [handleFilesSelect])
+
+  // Run silencedetect over the (trimmed) input, which must already be written
+  const scanSilence = useCallback(async (worker: PoolWorker, job: Job, info: FileInfo, inputPath: string): Promise<SilenceScan> => {
+    const log = await execLogged(worker, [
+      ...getInputArgs(inputPath, job.trim),
+      '-map', '0:a:0', '-af', `silencedetect=noise=${silenceThreshold}dB:d=${silenceMinDuration}`, '-f', 'null', '-',
+    ])
+    return {
+      threshold: silenceThreshold,
+      minDuration: silenceMinDuration,
+      regions: parseSilenceLog(log, job.trim?.start ?? 0, job.trim?.end ?? info.duration),
+    }
+  }, [silenceThreshold, silenceMinDuration])
+
+  const compressJob = useCallback(async (job: Job, worker: PoolWorker) => {
+    const { ffmpeg } = worker
+    worker.jobId = job.id
+    worker.cancelled = false
+    updateJob(job.id, { status: 'processing', progress: 0, result: null, error: null })
+    setProgressText(t('preparing'))
+
+    const inputName = getInputName(job.file.name)
+    // Everything written to the virtual FS, removed however the job ends
+    const files = [inputName]
+    const threads = getThreadCount(Math.min(poolSize, maxPoolSize))
+
+    try {
+      const sourceInfo = job.info ?? (await parseAudioInfo(job.file)).info
+
+      // Write input file, or mount it when it is too large to copy
+      const inputPath = await writeInput(worker, inputName, job.file, sourceInfo.streamed)
+      const inputArgs = getInputArgs(inputPath, job.trim)
+
+      // Silence is scanned before choosing settings so target-size mode sees the shorter duration
+      let silence: SilenceScan | null = null
+      if (silenceEnabled) {
+        silence = job.silence?.threshold === silenceThreshold && job.silence.minDuration === silenceMinDuration
+          ? job.silence
+          : null
+        if (!silence) {
+          setProgressText(t('detectingSilence'))
+          silence = await scanSilence(worker, job, sourceInfo, inputPath)
+          updateJob(job.id, { silence })
+        }
+      }
+      const info = applyTrim(sourceInfo, job.trim, silence)
+      const silenceFilter = silence && silence.regions.length > 0
+        ? `silenceremove=stop_periods=-1:stop_duration=${silenceMinDuration}:stop_threshold=${silenceThreshold}dB:detection=peak`
+        : null
+      // Cleanup runs after silence removal and before loudnorm, so loudness is measured on the cleaned audio
+      const cleanupFilters = buildFilterChain(filterChain)
+
+      // Determine actual parameters; target-size mode gets every lower step as a fallback
+      let steps: EncodeSettings[]
+      let targetSize: number | null = null
+      if (selectedPreset === 'target') {
+        targetSize = targetSizeBytes
+        steps = targetSizeSteps.slice(findTargetStep(targetSizeSteps, targetSize, info))
+      } else {
+        steps = [presetSettings]
+      }
+      const autoDownmix = autoMono && steps[0].channels !== 1 && canDownmix(info, job.analysis)
+      if (autoDownmix) {
+        // Target-size mode keeps its bitrate ladder; the size limit already decides the bitrate
+        steps = steps.map(step => (targetSize !== null ? { ...step, channels: 1 } : monoSettings(step)))
+      }
+      // A silent channel found by the analysis beats the chosen method when downmixing automatically
+      const deadChannel = autoDownmix ? job.analysis!.deadChannel : null
+      const downmixFilter = steps[0].channels === 1 && info.channels === 2
+        ? downmixFilters[deadChannel === 'left' ? 'right' : deadChannel === 'right' ? 'left' : downmixMethod]
+        : null
+
+      const codec = getCodec(steps[0].codec)
+      const outputName = `output.${codec.extension}`
+      const cover = !stripTags && codec.supportsCoverArt ? job.cover : null
+      const coverName = cover ? `cover.${cover.mimeType === 'image/png' ? 'png' : 'jpg'}` : null
+      files.push(outputName)
+      if (coverName) {
+        files.push(coverName)
+      }
+
+      let loudnessFilter: string | null = null
+      let encodeLog = ''
+      // Unchanged fields are carried over from the input's own metadata
+      const metadata = tagFields
+        .filter(field => job.tags[field.key] !== job.originalTags[field.key])
+        .map((field): [string, string] => [field.metadataKey, job.tags[field.key]])
+
+      const encode = async (settings: EncodeSettings): Promise<Blob> => {
+        const filters = [
+          ...(downmixFilter ? [downmixFilter] : []),
+          ...(silenceFilter ? [silenceFilter] : []),
+          ...cleanupFilters,
+          ...(loudnessFilter ? [loudnessFilter] : []),
+        ]
+        const args = buildEncodeArgs({
+          inputArgs,
+          coverName,
+          settings,
+          filters,
+          sourceSampleRate: info.sampleRate,
+          sourceChannels: info.channels,
+          restoreSampleRate: loudnessFilter !== null,
+          stereoMode,
+          stripTags,
+          metadata,
+          threads,
+          outputName,
+        })
+
+        // Run compression
+        encodeLog = await execLogged(worker, args)
+
+        // Read output file
+        const data = await ffmpeg.readFile(outputName)
+        return new Blob([data], { type: codec.mimeType })
+      }
+
+      // Write cover file
+      if (cover && coverName) {
+        await ffmpeg.writeFile(coverName, cover.data)
+      }
+
+      // Loudness pass one: measure, then feed the measurements to the encoding pass
+      let measured: Record<string, string> | null = null
+      if (loudnormEnabled) {
+        setProgressText(t('measuringLoudness'))
+        const target = `I=${loudnormTarget}:TP=${loudnormTruePeak}:LRA=${LOUDNORM_LRA}`
+        measured = parseLoudnormJson(await execLogged(worker, [
+          ...inputArgs, '-map', '0:a:0',
+          '-af', [downmixFilter, silenceFilter, ...cleanupFilters, `loudnorm=${target}:print_format=json`].filter(Boolean).join(','),
+          '-f', 'null', '-',
+        ]))
+        if (!measured) {
+          throw new Error(t('loudnessMeasureFailed'))
+        }
+        const lra = Math.max(LOUDNORM_LRA, Math.ceil(Number(measured.input_lra)))
+        loudnessFilter = [
+          `loudnorm=I=${loudnormTarget}:TP=${loudnormTruePeak}:LRA=${lra}`,
+          `measured_I=${measured.input_i}:measured_TP=${measured.input_tp}`,
+          `measured_LRA=${measured.input_lra}:measured_thresh=${measured.input_thresh}`,
+          `offset=${measured.target_offset}:linear=true:print_format=json`,
+        ].join(':')
+      }
+
+      let settings = steps[0]
+      let blob = await encode(settings)
 
-            audioContext.close()
-          } catch {
-            // Fallback if decodeAudioData fails
-            resolve({
-              name: audioFile.name,
-              size: audioFile.size,
-              duration,
-              bitrate,
-              sampleRate: 44100,
-              channels: 2,
+      // Container overhead can push the output past the estimate; step down until it fits
+      for (let i = 1; targetSize !== null && blob.size > targetSize && i < steps.length; i++) {
+        settings = steps[i]
+        setProgressText(t('retryingLower').replace('{settings}', formatSettings(settings)))
+        blob = await encode(settings)
+      }
+
+      // Size policy: an output that doesn't save enough is retried one step lower, then replaced by the original.
+      // Edited content or tags would be lost either way, so the policy only applies to plain re-encodes; a trimmed
+      // output is compared against the trimmed share of the source and can't fall back to the original.
+      const edited = silenceFilter !== null || cleanupFilters.length > 0 || loudnessFilter !== null
+        || stripTags || metadata.length > 0 || job.cover !== job.originalCover
+      const share = job.trim ? (job.trim.end - job.trim.start) / sourceInfo.duration : 1
+      const maxSize = job.file.size * share * (1 - minSavings / 100)
+      const applyPolicy = sizePolicy !== 'off' && !edited
+      const lower = applyPolicy && sizePolicy === 'retry' && blob.size > maxSize ? lowerSettings(settings) : null
+      if (lower) {
+        settings = lower
+        setProgressText(t('retryingLower').replace('{settings}', formatSettings(settings)))
+        blob = await encode(settings)
+      }
+      let encodedSize: number | null = null
+      if (applyPolicy && !job.trim && blob.size > maxSize) {
+        encodedSize = blob.size
+        blob = job.file
+      }
+      const oversized = sizePolicy !== 'off' && encodedSize === null && blob.size > maxSize
+
+      const duration = encodedSize === null ? parseLogTime(encodeLog) : null
+
+      // Split mode: cut the encoded output into numbered parts by stream copy, so nothing is re-encoded
+      let parts: OutputPart[] | null = null
+      const outputDuration = duration ?? info.duration
+      if (splitMode !== 'off' && encodedSize === null) {
+        const overhead = PART_HEADER_BYTES + (cover?.data.length ?? 0)
+        const partDuration = Math.max(MIN_PART_SECONDS, splitMode === 'duration'
+          ? splitMinutes * 60
+          // Bitrate varies along VBR files; keep a little headroom below the limit
+          : ((splitSizeMB * 1024 * 1024 - overhead) * 0.97) / ((blob.size - overhead) / outputDuration))
+
+        if (outputDuration > partDuration) {
+          let silences: SilenceRegion[] = []
+          if (splitAtSilence) {
+            setProgressText(t('detectingSilence'))
+            const log = await execLogged(worker, [
+              '-i', outputName, '-map', '0:a:0',
+              '-af', `silencedetect=noise=${SPLIT_SILENCE_THRESHOLD}dB:d=${SPLIT_SILENCE_MIN_DURATION}`, '-f', 'null', '-',
+            ])
+            silences = parseSilenceLog(log, 0, outputDuration)
+          }
+          const bounds = [0, ...planCuts(outputDuration, partDuration, silences, splitWindow), outputDuration]
+          const count = bounds.length - 1
+          parts = []
+          for (let i = 0; i < count; i++) {
+            setProgressText(t('splittingPart').replace('{index}', String(i + 1)).replace('{count}', String(count)))
+            const partName = `part${i + 1}.${codec.extension}`
+            files.push(partName)
+            const args = ['-ss', bounds[i].toFixed(3), '-to', bounds[i + 1].toFixed(3), '-i', outputName, '-map', '0', '-c', 'copy']
+            if (stripTags) {
+              args.push('-map_metadata', '-1', '-fflags', '+bitexact')
+              if (codec.id === 'mp3') {
+                args.push('-id3v2_version', '0')
+              }
+            } else {
+              args.push('-metadata', `track=${i + 1}/${count}`)
+              if (codec.id === 'mp3') {
+                args.push('-id3v2_version', '3')
+              }
+            }
+            await execLogged(worker, [...args, '-y', partName])
+            parts.push({
+              blob: new Blob([await ffmpeg.readFile(partName)], { type: codec.mimeType }),
+              start: bounds[i],
+              end: bounds[i + 1],
             })
+            // Parts can add up to more than the heap holds; each one is already copied out
+            await ffmpeg.deleteFile(partName)
           }
         }
+      }
 
-        reader.onerror = () => reject(new Error(t('cannotReadFile')))
-        reader.readAsArrayBuffer(audioFile)
-
-        URL.revokeObjectURL(audio.src)
+      let loudness: LoudnessReport | null = null
+      const applied = measured && parseLoudnormJson(encodeLog)
+      if (measured && applied) {
+        loudness = {
+          inputIntegrated: Number(measured.input_i),
+          inputTruePeak: Number(measured.input_tp),
+          outputIntegrated: Number(applied.output_i),
+          outputTruePeak: Number(applied.output_tp),
+        }
       }
 
-      audio.onerror = () => {
-        URL.revokeObjectURL(audio.src)
-        reject(new Error(t('cannotParseAudio')))
+      updateJob(job.id, {
+        status: encodedSize === null ? 'done' : 'skipped',
+        progress: 100,
+        result: {
+          blob,
+          size: blob.size,
+          settings,
+          targetSize,
+          loudness,
+          duration,
+          quality: null,
+          encodedSize,
+          parts,
+          silenceRemoved: silenceFilter !== null,
+          oversized,
+        },
+      })
+    } catch (err) {
+      if (worker.cancelled) {
+        // Back in the queue; it can be started again
+        updateJob(job.id, { status: 'pending', progress: 0, error: null })
+      } else {
+        console.error('Compression error:', err)
+        updateJob(job.id, { status: 'failed', error: t('compressionFailed') + ' ' + (err as Error).message })
       }
+    } finally {
+      await removeFiles(worker, files)
+      worker.jobId = null
+    }
+  }, [selectedPreset, presetSettings, targetSizeSteps, targetSizeBytes, stripTags, loudnormEnabled, loudnormTarget, loudnormTruePeak, filterChain, downmixMethod, stereoMode, autoMono, silenceEnabled, silenceThreshold, silenceMinDuration, sizePolicy, minSavings, splitMode, splitMinutes, splitSizeMB, splitAtSilence, splitWindow, poolSize, maxPoolSize, scanSilence, parseAudioInfo, updateJob, t])
+
+  // Switching codec snaps the custom values and rate-control mode to ones the codec supports
+  const handleCodecChange = useCallback((id: OutputCodec) => {
+    const codec = getCodec(id)
+    setOutputCodec(id)
+    if (codec.rateControls.length > 0 && !codec.rateControls.includes(rateControl)) {
+      setRateControl(codec.rateControls[0])
+    }
+    if (codec.bitrates.length > 0) {
+      setCustomBitrate(nearestValue(codec.bitrates, customBitrate))
+    }
+    setCustomSampleRate(nearestValue(codec.sampleRates, customSampleRate))
+  }, [rateControl, customBitrate, customSampleRate])
+
+  // Presets carry their filter chain; Custom keeps whatever is set
+  const handleSelectPreset = useCallback((id: string) => {
+    setSelectedPreset(id)
+    if (id !== 'custom') {
+      setEditingPresetId(null)
+      const userPreset = presetLibrary.presets.find(p => p.id === id)
+      setFilterChain(userPreset?.filters ?? presets.find(p => p.id === id)?.filters ?? createFilterChain(false))
+    }
+  }, [presetLibrary])
+
+  // Save the Custom values as a new user preset, or into the one being edited
+  const handleSavePreset = useCallback((asNew: boolean) => {
+    const name = presetName.trim()
+    if (!name) return
+    const editing = asNew ? null : editingPresetId
+    const id = editing ?? createPresetId()
+    const preset: UserPreset = { id, name, ...customSettings, filters: filterChain }
+    setPresetLibrary(prev => ({
+      presets: editing ? prev.presets.map(p => (p.id === editing ? preset : p)) : [...prev.presets, preset],
+      order: editing || prev.order.length === 0 ? prev.order : [...prev.order, id],
+    }))
+    setEditingPresetId(null)
+    setPresetName('')
+    setSelectedPreset(id)
+  }, [presetName, editingPresetId, customSettings, filterChain])
+
+  // Load a user preset into the Custom panel
+  const handleEditPreset = useCallback((preset: UserPreset) => {
+    setOutputCodec(preset.codec)
+    setRateControl(preset.rateControl)
+    setCustomBitrate(preset.bitrate)
+    setCustomVbrQuality(preset.vbrQuality)
+    if (preset.sampleRate !== null) setCustomSampleRate(preset.sampleRate)
+    if (preset.channels !== null) setCustomChannels(preset.channels)
+    setFilterChain(preset.filters)
+    setPresetName(preset.name)
+    setEditingPresetId(preset.id)
+    setSelectedPreset('custom')
+  }, [])
+
+  const handleFilterToggle = useCallback((index: number, enabled: boolean) => {
+    setFilterChain(prev => prev.map((stage, i) => (i === index ? { ...stage, enabled } : stage)))
+  }, [])
+
+  const handleFilterParam = useCallback((index: number, param: FilterParam, value: number) => {
+    const clamped = Math.min(param.max, Math.max(param.min, Number.isFinite(value) ? value : param.default))
+    setFilterChain(prev => prev.map((stage, i) => (
+      i === index ? { ...stage, params: { ...stage.params, [param.key]: clamped } } : stage
+    )))
+  }, [])
+
+  // Swap a filter with its neighbour; `offset` is -1 for up, 1 for down
+  const handleMoveFilter = useCallback((index: number, offset: number) => {
+    setFilterChain(prev => {
+      const chain = [...prev]
+      const [stage] = chain.splice(index, 1)
+      chain.splice(index + offset, 0, stage)
+      return chain
     })
+  }, [])
+
+  const handleDeletePreset = useCallback((id: string) => {
+    setPresetLibrary(prev => ({ presets: prev.presets.filter(p => p.id !== id), order: prev.order.filter(o => o !== id) }))
+    if (selectedPreset === id) setSelectedPreset('medium')
+    if (editingPresetId === id) {
+      setEditingPresetId(null)
+      setPresetName('')
+    }
+  }, [selectedPreset, editingPresetId])
+
+  // Drop one card onto another; the whole order is stored from then on
+  const handleMovePreset = useCallback((from: string, to: string) => {
+    if (from === to) return
+    const ids = presetCards.map(card => card.id).filter(id => id !== from)
+    ids.splice(ids.indexOf(to), 0, from)
+    setPresetLibrary(prev => ({ ...prev, order: ids }))
+  }, [presetCards])
+
+  const handleExportPresets = useCallback(() => {
+    downloadBlob(exportPresets(presetLibrary.presets), 'mp3-compress-presets.json')
+  }, [presetLibrary])
+
+  const formatPresetIssue = useCallback((issue: PresetIssue) => {
+    const message = t(issue.key).replace('{field}', issue.field ?? '')
+    return issue.entry === null ? message : `${t('presetEntry').replace('{index}', String(issue.entry + 1))} ${message}`
   }, [t])
 
-  const handleFileSelect = useCallback(async (selectedFile: File) => {
-    if (!selectedFile.type.includes('audio') && !selectedFile.name.endsWith('.mp3')) {
-      setError(t('pleaseSelectAudio'))
+  // Imported presets replace user presets of the same name, so re-importing a shared file updates it
+  const handleImportPresets = useCallback(async (presetFile: File) => {
+    const { presets: imported, issues } = parsePresetFile(await presetFile.text())
+    if (issues.length > 0) {
+      const shown = issues.slice(0, 5).map(formatPresetIssue).join('; ')
+      setError(`${t('presetImportFailed')} ${shown}${issues.length > 5 ? ` (+${issues.length - 5})` : ''}`)
       return
     }
-
     setError(null)
-    setResult(null)
-    setFile(selectedFile)
+    setPresetLibrary(prev => {
+      const presets = [...prev.presets]
+      const order = [...prev.order]
+      for (const entry of imported) {
+        const index = presets.findIndex(p => p.name === entry.name)
+        if (index !== -1) {
+          presets[index] = { ...entry, id: presets[index].id }
+        } else {
+          const id = createPresetId()
+          presets.push({ ...entry, id })
+          if (order.length > 0) order.push(id)
+        }
+      }
+      return { presets, order }
+    })
+  }, [formatPresetIssue, t])
+
+  // Scan the active file ahead of encoding so the regions can be reviewed
+  const handleDetectSilence = useCallback(async (job: Job) => {
+    const worker = workersRef.current[0]
+    if (!worker || !loaded || !job.info) return
 
+    setProcessing(true)
+    setError(null)
+    setProgressText(t('detectingSilence'))
+    const inputName = getInputName(job.file.name)
+    worker.jobId = job.id
+    worker.cancelled = false
     try {
-      const info = await parseAudioInfo(selectedFile)
-      setFileInfo(info)
+      await worker.ready
+      const inputPath = await writeInput(worker, inputName, job.file, job.info.streamed)
+      updateJob(job.id, { silence: await scanSilence(worker, job, job.info, inputPath) })
     } catch (err) {
-      setError(t('parseFileError') + ' ' + (err as Error).message)
+      if (!worker.cancelled) {
+        console.error('Silence detection error:', err)
+        setError(t('silenceDetectFailed') + ' ' + (err as Error).message)
+      }
+    } finally {
+      await removeFiles(worker, [inputName])
+      worker.jobId = null
+      setProcessing(false)
+      setProgressText('')
     }
-  }, [parseAudioInfo, t])
+  }, [loaded, scanSilence, updateJob, t])
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault()
-    setDragging(false)
-
-    const droppedFile = e.dataTransfer.files[0]
-    if (droppedFile) {
-      handleFileSelect(droppedFile)
+  // Start more instances if the pool grew; each loads its own copy of the core
+  const ensureWorkers = useCallback(async (count: number): Promise<PoolWorker[]> => {
+    while (workersRef.current.length < count) {
+      workersRef.current.push(createWorker(handleWorkerProgress))
     }
-  }, [handleFileSelect])
+    const workers = workersRef.current.slice(0, count)
+    await Promise.all(workers.map(w => w.ready))
+    return workers
+  }, [handleWorkerProgress])
 
   const handleCompress = useCallback(async () => {
-    if (!ffmpeg || !file || !loaded) return
+    if (!loaded) return
 
     setProcessing(true)
-    setProgress(0)
-    setProgressText(t('preparing'))
     setError(null)
-
+    cancelRef.current = false
+
+    // Each instance takes the next pending job until none are left.
+    // Files added while the queue is running are picked up as well.
+    const started = new Set<string>()
+    const nextJob = () => {
+      const job = cancelRef.current ? undefined : jobsRef.current.find(j => j.status === 'pending' && !started.has(j.id))
+      if (job) started.add(job.id)
+      return job
+    }
     try {
-      const preset = presets.find(p => p.id === selectedPreset)!
-
-      // Determine actual parameters
-      const bitrate = selectedPreset === 'custom' ? customBitrate : preset.bitrate
-      const sampleRate = selectedPreset === 'custom' ? customSampleRate : preset.sampleRate
-      const channels = selectedPreset === 'custom' ? customChannels : preset.channels
+      const workers = await ensureWorkers(Math.min(poolSize, maxPoolSize))
+      await Promise.all(workers.map(async (worker) => {
+        for (let job = nextJob(); job; job = nextJob()) {
+          setActiveJobId(job.id)
+          await compressJob(job, worker)
+          // A cancelled instance is reloading; wait before reusing it
+          await worker.ready
+        }
+      }))
+    } catch (err) {
+      console.error('Failed to load FFmpeg:', err)
+      setError(t('loadEngineFailed'))
+    } finally {
+      setProcessing(false)
+      setProgressText('')
+    }
+  }, [loaded, poolSize, maxPoolSize, ensureWorkers, compressJob, t])
+
+  /**
+   * Join every parsed input, in queue order, into one file with the selected
+   * preset. Each input keeps its trim; inputs are resampled to the highest
+   * sample rate among them and to stereo if any of them is. The cleanup
+   * filters apply, while loudness normalization and silence removal are
+   * per-file steps and are left out. Target size and the size policy retry
+   * lower settings as for single files; there is no original to fall back to.
+   */
+  const handleMerge = useCallback(async () => {
+    const inputs = jobs.filter(j => j.info)
+    if (!loaded || inputs.length < 2) return
 
-      // Write input file
-      await ffmpeg.writeFile('input.mp3', await fetchFile(file))
+    setProcessing(true)
+    setError(null)
+    setMergeResult(null)
+    cancelRef.current = false
+    let worker: PoolWorker
+    try {
+      [worker] = await ensureWorkers(1)
+    } catch (err) {
+      console.error('Failed to load FFmpeg:', err)
+      setError(t('loadEngineFailed'))
+      setProcessing(false)
+      return
+    }
+    worker.jobId = MERGE_JOB_ID
+    worker.cancelled = false
 
-      // Build FFmpeg command
-      const args = ['-i', 'input.mp3', '-b:a', `${bitrate}k`]
+    const names = inputs.map((job, i) => `merge${i}.${getExtension(job.file.name) || 'bin'}`)
+    const files = [...names, CHAPTERS_FILE]
+    try {
+      setProgressText(t('preparing'))
+      const paths = await writeInputs(worker, inputs.map((job, i) => ({ name: names[i], file: job.file, streamed: job.info!.streamed })))
+
+      const durations = inputs.map(job => applyTrim(job.info!, job.trim).duration)
+      // acrossfade can't overlap more than an input is long
+      const overlap = joinMode === 'crossfade' ? Math.min(joinSeconds, ...durations.map(d => d / 2)) : 0
+      const gap = joinMode === 'gap' ? joinSeconds : 0
+      const titles = inputs.map(job => job.tags.title.trim() || job.file.name.replace(/\.[^/.]+$/, ''))
+      const chapters = planChapters(titles, durations, gap, overlap)
+      const duration = chapters[chapters.length - 1].end
+
+      const targetSize = selectedPreset === 'target' ? targetSizeBytes : null
+      const steps = targetSize !== null
+        ? targetSizeSteps.slice(findTargetStep(targetSizeSteps, targetSize, { ...inputs[0].info!, duration }))
+        : [presetSettings]
+      const codec = getCodec(steps[0].codec)
+      const outputName = `merged.${codec.extension}`
+      files.push(outputName)
+
+      const layout = inputs.some(job => job.info!.channels > 1) ? 'stereo' : 'mono'
+      const sampleRate = Math.max(...inputs.map(job => job.info!.sampleRate))
+      const inputArgs = inputs.flatMap((job, i) => getInputArgs(paths[i], job.trim))
+      if (!stripTags) {
+        await worker.ffmpeg.writeFile(CHAPTERS_FILE, buildChapterFile(chapters))
+        inputArgs.push('-i', CHAPTERS_FILE)
+      }
+      // Tags every input agrees on describe the whole; per-track ones such as the title would mislabel it
+      const metadata = tagFields
+        .filter(field => ['artist', 'album', 'year', 'genre'].includes(field.key))
+        .filter(field => inputs[0].tags[field.key] && inputs.every(job => job.tags[field.key] === inputs[0].tags[field.key]))
+        .map((field): [string, string] => [field.metadataKey, inputs[0].tags[field.key]])
+
+      const encode = async (settings: EncodeSettings): Promise<Blob> => {
+        const filters = [
+          ...(settings.channels === 1 && layout === 'stereo' ? [downmixFilters[downmixMethod]] : []),
+          ...buildFilterChain(filterChain),
+        ]
+        await execLogged(worker, buildEncodeArgs({
+          inputArgs,
+          coverName: null,
+          settings,
+          filters: [],
+          filterGraph: buildMergeGraph(inputs.length, sampleRate, layout, gap, overlap, filters),
+          // The chapters come from the metadata file after the inputs
+          chaptersInput: stripTags ? undefined : inputs.length,
+          sourceSampleRate: sampleRate,
+          sourceChannels: layout === 'stereo' ? 2 : 1,
+          restoreSampleRate: false,
+          stereoMode,
+          stripTags,
+          metadata,
+          threads: getThreadCount(1),
+          outputName,
+        }))
+        return new Blob([await worker.ffmpeg.readFile(outputName)], { type: codec.mimeType })
+      }
 
-      if (sampleRate) {
-        args.push('-ar', sampleRate.toString())
+      setProgressText(t('mergingFiles').replace('{count}', String(inputs.length)))
+      let settings = steps[0]
+      let blob = await encode(settings)
+      for (let i = 1; targetSize !== null && blob.size > targetSize && i < steps.length; i++) {
+        settings = steps[i]
+        setProgressText(t('retryingLower').replace('{settings}', formatSettings(settings)))
+        blob = await encode(settings)
       }
 
-      if (channels) {
-        args.push('-ac', channels.toString())
+      // The size policy compares against the trimmed inputs together
+      const sourceSize = inputs.reduce((sum, job, i) => sum + job.file.size * (job.trim ? durations[i] / job.info!.duration : 1), 0)
+      const maxSize = sourceSize * (1 - minSavings / 100)
+      const lower = sizePolicy === 'retry' && blob.size > maxSize ? lowerSettings(settings) : null
+      if (lower) {
+        settings = lower
+        setProgressText(t('retryingLower').replace('{settings}', formatSettings(settings)))
+        blob = await encode(settings)
       }
 
-      args.push('-map', '0:a', '-y', 'output.mp3')
+      setMergeResult({
+        blob,
+        name: formatOutputName(`${inputs[0].file.name.replace(/\.[^/.]+$/, '')}_merged`, settings),
+        settings,
+        chapters,
+        oversized: sizePolicy !== 'off' && blob.size > maxSize,
+      })
+    } catch (err) {
+      if (!worker.cancelled) {
+        console.error('Merge error:', err)
+        setError(t('mergeFailed') + ' ' + (err as Error).message)
+      }
+    } finally {
+      await removeFiles(worker, files)
+      worker.jobId = null
+      setProcessing(false)
+      setProgressText('')
+    }
+  }, [
+    jobs, loaded, ensureWorkers, joinMode, joinSeconds, selectedPreset, targetSizeSteps, targetSizeBytes, presetSettings,
+    downmixMethod, filterChain, stereoMode, stripTags, sizePolicy, minSavings, t,
+  ])
+
+  // Drop one queue entry onto another; merges follow the queue order
+  const handleMoveJob = useCallback((from: string, to: string) => {
+    if (from === to) return
+    setJobs(prev => {
+      const moved = prev.find(j => j.id === from)!
+      const rest = prev.filter(j => j.id !== from)
+      rest.splice(rest.findIndex(j => j.id === to), 0, moved)
+      return rest
+    })
+  }, [])
 
-      // Run compression
-      await ffmpeg.exec(args)
+  // Terminate the instance running this job; the job goes back to pending
+  const handleCancelJob = useCallback((id: string) => {
+    const worker = workersRef.current.find(w => w.jobId === id)
+    if (worker) {
+      restartWorker(worker).catch(err => console.error('Failed to reload FFmpeg:', err))
+    }
+  }, [])
 
-      // Read output file
-      const data = await ffmpeg.readFile('output.mp3')
-      const blob = new Blob([data], { type: 'audio/mp3' })
+  const handleCancel = useCallback(() => {
+    cancelRef.current = true
+    for (const worker of workersRef.current) {
+      if (worker.jobId) {
+        restartWorker(worker).catch(err => console.error('Failed to reload FFmpeg:', err))
+      }
+    }
+  }, [])
 
-      setResult({
-        blob,
-        size: blob.size,
+  // Split outputs download together as one ZIP of their parts
+  const handleDownload = useCallback((job: Job) => {
+    if (!job.result) return
+    const downloads = getDownloadFiles(job)
+    if (downloads.length === 1) {
+      downloadBlob(downloads[0].blob, downloads[0].name)
+      return
+    }
+    if (!fitsInZip(downloads.map(({ name, blob }) => ({ name, size: blob.size })))) {
+      setError(t('zipTooLarge'))
+      downloads.forEach(({ name, blob }) => downloadBlob(blob, name))
+      return
+    }
+    setZipping(true)
+    Promise.all(downloads.map(async ({ name, blob }) => ({ name, data: new Uint8Array(await blob.arrayBuffer()) })))
+      .then(entries => downloadBlob(createZip(entries), `${getOutputFileName(job).replace(/\.[^/.]+$/, '')}.zip`))
+      .catch((err) => {
+        console.error('ZIP error:', err)
+        setError(t('zipFailed') + ' ' + (err as Error).message)
       })
+      .finally(() => setZipping(false))
+  }, [t])
 
-      // Cleanup
-      await ffmpeg.deleteFile('input.mp3')
-      await ffmpeg.deleteFile('output.mp3')
+  const handleDownloadAll = useCallback(async () => {
+    const doneJobs = jobs.filter(j => j.result)
+    if (doneJobs.length === 0) return
+
+    const usedNames = new Set<string>()
+    const downloads = doneJobs.flatMap(getDownloadFiles).map(({ name, blob }) => ({ name: uniqueFileName(name, usedNames), blob }))
+    // Past the ZIP limits the files are saved one by one
+    if (!fitsInZip(downloads.map(({ name, blob }) => ({ name, size: blob.size })))) {
+      setError(t('zipTooLarge'))
+      downloads.forEach(({ name, blob }) => downloadBlob(blob, name))
+      return
+    }
 
+    setZipping(true)
+    try {
+      const entries = await Promise.all(downloads.map(async ({ name, blob }) => ({
+        name,
+        data: new Uint8Array(await blob.arrayBuffer()),
+      })))
+      // Named after the format when the batch has one, e.g. compressed-opus.zip
+      const extensions = new Set(downloads.map(({ name }) => getExtension(name)))
+      downloadBlob(createZip(entries), `compressed-${extensions.size === 1 ? [...extensions][0] || 'audio' : 'audio'}.zip`)
     } catch (err) {
-      console.error('Compression error:', err)
-      setError(t('compressionFailed') + ' ' + (err as Error).message)
+      console.error('ZIP error:', err)
+      setError(t('zipFailed') + ' ' + (err as Error).message)
     } finally {
-      setProcessing(false)
-      setProgressText('')
+      setZipping(false)
     }
-  }, [ffmpeg, file, loaded, selectedPreset, customBitrate, customSampleRate, customChannels, t])
+  }, [jobs, t])
+
+  const handleTagChange = useCallback((id: string, key: keyof AudioTags, value: string) => {
+    setJobs(prev => prev.map(j => (j.id === id ? { ...j, tags: { ...j.tags, [key]: value } } : j)))
+  }, [])
+
+  // Selecting the whole file clears the trim so no seeking is done
+  const handleTrimChange = useCallback((id: string, duration: number, start: number, end: number) => {
+    updateJob(id, {
+      trim: start <= 0 && end >= duration ? null : { start: Math.max(0, start), end: Math.min(duration, end) },
+      // Detected regions no longer match the selection
+      silence: null,
+    })
+  }, [updateJob])
 
-  const handleDownload = useCallback(() => {
-    if (!result || !file) return
+  const handleCoverSelect = useCallback(async (image: File) => {
+    if (!activeJobId) return
+    const data = new Uint8Array(await image.arrayBuffer())
+    updateJob(activeJobId, { cover: { data, mimeType: image.type === 'image/png' ? 'image/png' : 'image/jpeg' } })
+  }, [activeJobId, updateJob])
 
-    const preset = presets.find(p => p.id === selectedPreset)!
-    const originalName = file.name.replace(/\.[^/.]+$/, '')
-    const bitrate = selectedPreset === 'custom' ? customBitrate : preset.bitrate
-    const fileName = `${originalName}_${bitrate}kbps.mp3`
+  // Decode the source and the output and compare the section that was encoded
+  const handleAnalyzeQuality = useCallback(async (job: Job) => {
+    const jobResult = job.result
+    if (!jobResult) return
 
-    const url = URL.createObjectURL(result.blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = fileName
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
-  }, [result, file, selectedPreset, customBitrate])
+    setAnalyzing(true)
+    setError(null)
+    try {
+      const original = await decodeAudio(job.file)
+      const compressed = await decodeAudio(jobResult.blob)
+      const quality = await analyzeQuality(original, compressed, job.trim?.start ?? 0, job.trim?.end ?? original.duration)
+      setJobs(prev => prev.map(j => (j.id === job.id && j.result === jobResult ? { ...j, result: { ...jobResult, quality } } : j)))
+    } catch (err) {
+      console.error('Quality analysis error:', err)
+      setError(t('qualityAnalysisFailed') + ' ' + (err as Error).message)
+    } finally {
+      setAnalyzing(false)
+    }
+  }, [t])
+
+  const handleRecompress = useCallback((job: Job) => {
+    updateJob(job.id, { status: 'pending', progress: 0, result: null, error: null })
+  }, [updateJob])
+
+  const handleRemoveJob = useCallback((id: string) => {
+    setJobs(prev => prev.filter(j => j.id !== id))
+  }, [])
 
   const handleClear = useCallback(() => {
-    setFile(null)
-    setFileInfo(null)
-    setResult(null)
+    setJobs([])
+    setActiveJobId(null)
+    setMergeResult(null)
     setError(null)
-    setProgress(0)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
   }, [])
 
-  // Keep handleClear available for future use
-  void handleClear
-
   return (
     <>
       <div className="container">
@@ -378,11 +1656,145 @@ function App() {
       <input
         ref={fileInputRef}
         type="file"
-        accept="audio/mp3,audio/mpeg,.mp3"
+        accept={inputAccept}
+        multiple
         style={{ display: 'none' }}
-        onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
+        onChange={(e) => {
+          if (e.target.files?.length) handleFilesSelect(Array.from(e.target.files))
+          e.target.value = ''
+        }}
       />
 
+      {/* Queue */}
+      {jobs.length > 0 && (
+        <div className="queue-section">
+          <div className="queue-header">
+            <h3>{t('queue')} ({finishedCount}/{jobs.length})</h3>
+            <div className="queue-actions">
+              {maxPoolSize > 1 && (
+                <label className="pool-select">
+                  {t('parallelJobs')}
+                  <select value={poolSize} onChange={(e) => setPoolSize(Number(e.target.value))} disabled={processing}>
+                    {Array.from({ length: maxPoolSize }, (_, i) => i + 1).map((size) => (
+                      <option key={size} value={size}>{size}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <button className="clear-btn" onClick={handleClear} disabled={processing}>
+                {t('clearAll')}
+              </button>
+            </div>
+          </div>
+          <div className="job-list">
+            {jobs.map((job) => (
+              <div
+                key={job.id}
+                className={`job-item ${job.status} ${job.id === activeJobId ? 'active' : ''} ${draggedJobId === job.id ? 'dragging' : ''}`}
+                onClick={() => setActiveJobId(job.id)}
+                draggable={!processing}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move'
+                  e.dataTransfer.setData('text/plain', job.id)
+                  setDraggedJobId(job.id)
+                }}
+                onDragOver={(e) => {
+                  if (draggedJobId) e.preventDefault()
+                }}
+                onDrop={(e) => {
+                  if (!draggedJobId) return
+                  e.preventDefault()
+                  e.stopPropagation()
+                  handleMoveJob(draggedJobId, job.id)
+                }}
+                onDragEnd={() => setDraggedJobId(null)}
+              >
+                <div className="job-main">
+                  <div className="job-name" title={job.file.name}>{job.file.name}</div>
+                  <div className="job-status">
+                    {job.status === 'processing' ? `${t('statusProcessing')} ${job.progress}%` : t(jobStatusKeys[job.status])}
+                    {job.result && ` · ${formatFileSize(job.file.size)} → ${formatFileSize(job.result.size)}`}
+                  </div>
+                  {job.status === 'processing' && (
+                    <div className="job-progress">
+                      <div className="job-progress-fill" style={{ width: `${job.progress}%` }}></div>
+                    </div>
+                  )}
+                  {job.error && <div className="job-error">{job.error}</div>}
+                </div>
+                <button
+                  className="job-remove"
+                  title={job.status === 'processing' ? t('cancel') : t('removeJob')}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    if (job.status === 'processing') {
+                      handleCancelJob(job.id)
+                    } else {
+                      handleRemoveJob(job.id)
+                    }
+                  }}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          {jobs.length > 1 && (
+            <div className="merge-options">
+              <span className="custom-hint">{t('queueOrderHint')}</span>
+              <label className="pool-select">
+                {t('joinMode')}
+                <select value={joinMode} onChange={(e) => setJoinMode(e.target.value as JoinMode)} disabled={processing}>
+                  {joinModeOptions.map((option) => (
+                    <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="pool-select">
+                {t('joinSeconds')}
+                <input
+                  type="number"
+                  min="0"
+                  max="10"
+                  step="0.5"
+                  value={joinSeconds}
+                  onChange={(e) => setJoinSeconds(Math.min(10, Math.max(0, Number(e.target.value) || 0)))}
+                  disabled={processing}
+                />
+              </label>
+              <button
+                className="detect-btn"
+                onClick={handleMerge}
+                disabled={!loaded || processing || jobs.filter(j => j.info).length < 2}
+              >
+                {t('mergeFiles')}
+              </button>
+            </div>
+          )}
+          {mergeResult && (
+            <div className="merge-result">
+              <div className="result-params">
+                {t('mergedFile')} <strong>{mergeResult.name}</strong>
+                {' · '}{formatFileSize(mergeResult.blob.size)}{' · '}{formatSettings(mergeResult.settings)}
+                <ol className="result-parts">
+                  {mergeResult.chapters.map((chapter, index) => (
+                    <li key={index}>
+                      {formatDuration(chapter.start)} · {chapter.title}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+              {mergeResult.oversized && (
+                <div className="result-params">{t('mergeOversized').replace('{percent}', String(minSavings))}</div>
+              )}
+              <button className="download-btn" onClick={() => downloadBlob(mergeResult.blob, mergeResult.name)}>
+                {t('downloadMerged')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* File Info - Always visible */}
       <div className={`file-info ${!fileInfo ? 'disabled' : ''}`}>
         <h3>{t('fileInfo')}</h3>
@@ -399,62 +1811,348 @@ function App() {
           </div>
           <div className="info-item">
             <div className="info-label">{t('duration')}</div>
-            <div className="info-value">{fileInfo ? formatDuration(fileInfo.duration) : '--'}</div>
+            <div className="info-value">{fileInfo ? estimatedMark('duration') + formatDuration(fileInfo.duration) : '--'}</div>
           </div>
           <div className="info-item">
             <div className="info-label">{t('bitrate')}</div>
-            <div className="info-value">{fileInfo ? `${fileInfo.bitrate} kbps` : '--'}</div>
+            <div className="info-value">{fileInfo ? `${estimatedMark('bitrate')}${fileInfo.bitrate} kbps` : '--'}</div>
           </div>
           <div className="info-item">
             <div className="info-label">{t('sampleRate')}</div>
-            <div className="info-value">{fileInfo ? `${fileInfo.sampleRate} Hz` : '--'}</div>
+            <div className="info-value">{fileInfo ? `${estimatedMark('sampleRate')}${fileInfo.sampleRate} Hz` : '--'}</div>
           </div>
           <div className="info-item">
             <div className="info-label">{t('channels')}</div>
-            <div className="info-value">{fileInfo ? (fileInfo.channels === 1 ? t('mono') : t('stereo')) : '--'}</div>
+            <div className="info-value">{fileInfo ? estimatedMark('channels') + (fileInfo.channels === 1 ? t('mono') : t('stereo')) : '--'}</div>
           </div>
+          <div className="info-item">
+            <div className="info-label">{t('container')}</div>
+            <div className="info-value">{fileInfo?.container ?? '--'}</div>
+          </div>
+          <div className="info-item">
+            <div className="info-label">{t('codec')}</div>
+            <div className="info-value">{fileInfo?.codec ?? '--'}</div>
+          </div>
+          {fileInfo?.mpeg && (
+            <>
+              <div className="info-item">
+                <div className="info-label">{t('mpegStream')}</div>
+                <div className="info-value">MPEG-{fileInfo.mpeg.version} Layer {'I'.repeat(fileInfo.mpeg.layer)}</div>
+              </div>
+              <div className="info-item">
+                <div className="info-label">{t('rateMode')}</div>
+                <div className="info-value">
+                  {fileInfo.mpeg.rateMode}{fileInfo.mpeg.vbrHeader && ` (${fileInfo.mpeg.vbrHeader})`}
+                </div>
+              </div>
+              <div className="info-item">
+                <div className="info-label">{t('channelMode')}</div>
+                <div className="info-value">{t(channelModeKeys[fileInfo.mpeg.channelMode])}</div>
+              </div>
+              <div className="info-item">
+                <div className="info-label">{t('encoder')}</div>
+                <div className="info-value">{fileInfo.mpeg.encoder ?? '--'}</div>
+              </div>
+              <div className="info-item">
+                <div className="info-label">{t('encoderDelayPadding')}</div>
+                <div className="info-value">
+                  {fileInfo.mpeg.encoderDelay !== null ? `${fileInfo.mpeg.encoderDelay} / ${fileInfo.mpeg.encoderPadding}` : '--'}
+                </div>
+              </div>
+              <div className="info-item">
+                <div className="info-label">{t('frameCount')}</div>
+                <div className="info-value">{estimatedMark('frameCount')}{fileInfo.mpeg.frameCount.toLocaleString()}</div>
+              </div>
+            </>
+          )}
         </div>
+        {fileInfo && fileInfo.estimated.length > 0 && (
+          <div className="custom-hint">{t('estimatedHint')}</div>
+        )}
+
+        {fileInfo?.streamed && (
+          <div className="large-file-warning">
+            {t('largeFileWarning').replace('{limit}', formatFileSize(MAX_INPUT_BYTES))}
+          </div>
+        )}
+
+        {/* Tags */}
+        {activeJob && fileInfo && (
+          <div className="tag-editor">
+            <div className="tag-editor-header">
+              <h4>{t('tags')}</h4>
+              <label className="checkbox-option">
+                <input
+                  type="checkbox"
+                  checked={stripTags}
+                  onChange={(e) => setStripTags(e.target.checked)}
+                  disabled={processing}
+                />
+                {t('stripTags')}
+              </label>
+            </div>
+            <div className={`tag-editor-body ${stripTags ? 'disabled' : ''}`}>
+              <div className="tag-cover">
+                {coverUrl
+                  ? <img src={coverUrl} alt={t('coverArt')} />
+                  : <div className="tag-cover-empty">{t('noCover')}</div>}
+                <button
+                  className="clear-btn"
+                  onClick={() => coverInputRef.current?.click()}
+                  disabled={!tagsEditable || stripTags}
+                >
+                  {t('replaceCover')}
+                </button>
+                {activeJob.cover && (
+                  <button
+                    className="clear-btn"
+                    onClick={() => updateJob(activeJob.id, { cover: null })}
+                    disabled={!tagsEditable || stripTags}
+                  >
+                    {t('removeCover')}
+                  </button>
+                )}
+              </div>
+              <div className="tag-fields">
+                {tagFields.map((field) => (
+                  <div className="custom-item" key={field.key}>
+                    <label>{t(field.labelKey)}</label>
+                    <input
+                      type="text"
+                      value={activeJob.tags[field.key]}
+                      onChange={(e) => handleTagChange(activeJob.id, field.key, e.target.value)}
+                      disabled={!tagsEditable || stripTags}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            {!stripTags && activeJob.cover && !selectedCodec.supportsCoverArt && (
+              <div className="custom-hint">{t('coverNotSupported').replace('{format}', selectedCodec.label)}</div>
+            )}
+          </div>
+        )}
       </div>
 
+      <input
+        ref={coverInputRef}
+        type="file"
+        accept="image/jpeg,image/png"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          if (e.target.files?.[0]) handleCoverSelect(e.target.files[0])
+          e.target.value = ''
+        }}
+      />
+
       {/* Presets - Always visible */}
-      <div className={`presets-section ${!file || result ? 'disabled' : ''}`}>
+      <div className={`presets-section ${jobs.length === 0 || processing ? 'disabled' : ''}`}>
         <h3>{t('selectPreset')}</h3>
+        <div className="toggle-row">
+          <span className="toggle-label">{t('outputFormat')}</span>
+          {codecs.map((codec) => (
+            <button
+              key={codec.id}
+              className={`toggle-btn ${outputCodec === codec.id ? 'selected' : ''}`}
+              onClick={() => handleCodecChange(codec.id)}
+              disabled={jobs.length === 0 || processing}
+            >
+              {codec.label}
+            </button>
+          ))}
+        </div>
+        {selectedCodec.rateControls.length > 0 && (
+          <div className="toggle-row">
+            <span className="toggle-label">{t('rateControl')}</span>
+            {rateControlOptions.map((option) => (
+              <button
+                key={option.value}
+                className={`toggle-btn ${rateControl === option.value ? 'selected' : ''}`}
+                onClick={() => setRateControl(option.value)}
+                disabled={jobs.length === 0 || processing || !selectedCodec.rateControls.includes(option.value)}
+                title={t(option.descKey)}
+              >
+                {t(option.nameKey)}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="presets-grid">
-          {presets.map((preset) => (
+          {presetCards.map((card) => (
             <div
-              key={preset.id}
-              className={`preset-card ${selectedPreset === preset.id ? 'selected' : ''} ${!file || result ? 'disabled' : ''}`}
-              onClick={() => file && !result && setSelectedPreset(preset.id)}
+              key={card.id}
+              className={`preset-card ${selectedPreset === card.id ? 'selected' : ''} ${draggedPresetId === card.id ? 'dragging' : ''} ${jobs.length === 0 || processing ? 'disabled' : ''}`}
+              onClick={() => jobs.length > 0 && !processing && handleSelectPreset(card.id)}
+              draggable={!processing}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move'
+                e.dataTransfer.setData('text/plain', card.id)
+                setDraggedPresetId(card.id)
+              }}
+              onDragOver={(e) => {
+                if (draggedPresetId) e.preventDefault()
+              }}
+              onDrop={(e) => {
+                if (!draggedPresetId) return
+                e.preventDefault()
+                e.stopPropagation()
+                handleMovePreset(draggedPresetId, card.id)
+              }}
+              onDragEnd={() => setDraggedPresetId(null)}
             >
-              <div className="preset-name">{t(preset.nameKey)}</div>
-              <div className="preset-desc">{t(preset.descKey)}</div>
+              <div className="preset-name">{card.name}</div>
+              <div className="preset-desc">{card.description}</div>
+              {recommendedPreset === card.id && <div className="preset-badge">{t('recommended')}</div>}
+              {upscalingPresets.has(card.id) && (
+                <div className="preset-badge warning" title={t('presetUpscalesHint')}>{t('presetUpscales')}</div>
+              )}
+              {card.user && (
+                <div className="preset-card-actions">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleEditPreset(card.user!)
+                    }}
+                    disabled={jobs.length === 0 || processing}
+                  >
+                    {t('editPreset')}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDeletePreset(card.id)
+                    }}
+                    disabled={processing}
+                  >
+                    {t('deletePreset')}
+                  </button>
+                </div>
+              )}
             </div>
           ))}
         </div>
+        {fileInfo && recommendedPreset && (
+          <div className="preset-recommendation">
+            <span>
+              {t('sourceAnalysis')}{' '}
+              <strong>
+                {[
+                  `${fileInfo.bitrate} kbps${isLossySource(fileInfo) ? '' : ` ${t('sourceLossless')}`}`,
+                  fileInfo.channels === 1 ? t('mono') : sourceAnalysis?.effectivelyMono ? t('effectivelyMono') : t('stereo'),
+                  ...(sourceAnalysis ? [
+                    sourceAnalysis.speech ? t('contentSpeech') : t('contentMusic'),
+                    t('contentUpTo').replace('{freq}', (sourceAnalysis.frequencyCeiling / 1000).toFixed(1)),
+                  ] : []),
+                ].join(' · ')}
+              </strong>
+            </span>
+            <span>
+              {t('recommendedPreset')}{' '}
+              <strong>{presetCards.find(card => card.id === recommendedPreset)?.name}</strong>
+            </span>
+            {selectedPreset !== recommendedPreset && (
+              <button
+                className="detect-btn"
+                onClick={() => handleSelectPreset(recommendedPreset)}
+                disabled={processing}
+              >
+                {t('useRecommended')}
+              </button>
+            )}
+          </div>
+        )}
+        <div className="preset-library-actions">
+          <span className="custom-hint">{t('presetOrderHint')}</span>
+          <button className="detect-btn" onClick={handleExportPresets} disabled={presetLibrary.presets.length === 0}>
+            {t('exportPresets')}
+          </button>
+          <button className="detect-btn" onClick={() => presetFileInputRef.current?.click()}>
+            {t('importPresets')}
+          </button>
+          <input
+            ref={presetFileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleImportPresets(e.target.files[0])
+              e.target.value = ''
+            }}
+          />
+        </div>
 
-        {/* Custom Options */}
-        {selectedPreset === 'custom' && (
+        {/* Target Size Options */}
+        {selectedPreset === 'target' && (
           <div className="custom-options">
-            <h4>{t('customParams')}</h4>
+            <h4>{t('targetSizeParams')}</h4>
             <div className="custom-grid">
               <div className="custom-item">
-                <label>{t('bitrate')}</label>
+                <label>{t('targetSize')}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={targetSizeValue}
+                  onChange={(e) => setTargetSizeValue(Math.max(0, Number(e.target.value) || 0))}
+                  disabled={jobs.length === 0 || processing}
+                />
+              </div>
+              <div className="custom-item">
+                <label>{t('sizeUnit')}</label>
                 <select
-                  value={customBitrate}
-                  onChange={(e) => setCustomBitrate(Number(e.target.value))}
-                  disabled={!file || !!result}
+                  value={targetSizeUnit}
+                  onChange={(e) => setTargetSizeUnit(e.target.value as 'MB' | 'KB')}
+                  disabled={jobs.length === 0 || processing}
                 >
-                  {bitrateOptions.map((br) => (
-                    <option key={br} value={br}>{br} kbps</option>
-                  ))}
+                  <option value="MB">MB</option>
+                  <option value="KB">KB</option>
                 </select>
               </div>
+            </div>
+            <div className="custom-hint">{t('targetSizeHint')}</div>
+          </div>
+        )}
+
+        {/* Custom Options */}
+        {selectedPreset === 'custom' && (
+          <div className="custom-options">
+            <h4>{t('customParams')}</h4>
+            <div className="custom-grid">
+              {usesVbrQuality(customSettings) ? (
+                <div className="custom-item">
+                  <label>{t('vbrQuality')}</label>
+                  <select
+                    value={customVbrQuality}
+                    onChange={(e) => setCustomVbrQuality(Number(e.target.value))}
+                    disabled={jobs.length === 0 || processing}
+                  >
+                    {vbrLevels.map((level) => (
+                      <option key={level.quality} value={level.quality}>
+                        V{level.quality} ({level.minBitrate}–{level.maxBitrate} kbps)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : selectedCodec.bitrates.length > 0 && (
+                <div className="custom-item">
+                  <label>{rateControl === 'abr' ? t('averageBitrate') : t('bitrate')}</label>
+                  <select
+                    value={customBitrate}
+                    onChange={(e) => setCustomBitrate(Number(e.target.value))}
+                    disabled={jobs.length === 0 || processing}
+                  >
+                    {selectedCodec.bitrates.map((br) => (
+                      <option key={br} value={br}>{br} kbps</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="custom-item">
                 <label>{t('sampleRate')}</label>
                 <select
                   value={customSampleRate}
                   onChange={(e) => setCustomSampleRate(Number(e.target.value))}
-                  disabled={!file || !!result}
+                  disabled={jobs.length === 0 || processing}
                 >
                   {sampleRateOptions.map((sr) => (
                     <option key={sr.value} value={sr.value}>{t(sr.labelKey)}</option>
@@ -464,9 +2162,9 @@ function App() {
               <div className="custom-item">
                 <label>{t('channels')}</label>
                 <select
-                  value={customChannels}
+                  value={selectedCodec.channels ?? customChannels}
                   onChange={(e) => setCustomChannels(Number(e.target.value))}
-                  disabled={!file || !!result}
+                  disabled={jobs.length === 0 || processing || selectedCodec.channels !== null}
                 >
                   {channelOptions.map((ch) => (
                     <option key={ch.value} value={ch.value}>{t(ch.labelKey)}</option>
@@ -474,47 +2172,495 @@ function App() {
                 </select>
               </div>
             </div>
+            <div className="preset-save-row">
+              <input
+                type="text"
+                value={presetName}
+                maxLength={60}
+                placeholder={t('presetNamePlaceholder')}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSavePreset(false)
+                }}
+                disabled={jobs.length === 0 || processing}
+              />
+              <button
+                className="detect-btn"
+                onClick={() => handleSavePreset(false)}
+                disabled={!presetName.trim() || jobs.length === 0 || processing}
+              >
+                {editingPresetId ? t('updatePreset') : t('savePreset')}
+              </button>
+              {editingPresetId && (
+                <button
+                  className="detect-btn"
+                  onClick={() => handleSavePreset(true)}
+                  disabled={!presetName.trim() || jobs.length === 0 || processing}
+                >
+                  {t('saveAsNewPreset')}
+                </button>
+              )}
+            </div>
           </div>
         )}
       </div>
 
-      {/* Progress */}
-      {processing && (
-        <div className="progress-section">
-          <div className="progress-bar">
-            <div className="progress-fill" style={{ width: `${progress}%` }}></div>
+      {/* Processing Options */}
+      <div className={`processing-section ${jobs.length === 0 || processing ? 'disabled' : ''}`}>
+        <h3>{t('processingOptions')}</h3>
+
+        <div className="custom-options">
+          <div className="option-header">
+            <span>{t('stereoHandling')}</span>
+          </div>
+          {fileInfo && canDownmix(fileInfo, sourceAnalysis) && sourceAnalysis && (
+            <div className="preset-recommendation">
+              <span>
+                {sourceAnalysis.deadChannel
+                  ? t('channelSilent').replace('{channel}', t(sourceAnalysis.deadChannel === 'left' ? 'channelLeft' : 'channelRight'))
+                  : sourceAnalysis.effectivelyMono || sourceAnalysis.sideLevel === null
+                    ? t('channelsIdentical')
+                    : t('channelsNearlyIdentical').replace('{level}', String(Math.round(sourceAnalysis.sideLevel)))}
+                {' '}
+                {(() => {
+                  if (presetSettings.channels === 1 || selectedPreset === 'target') return null
+                  if (usesVbrQuality(presetSettings)) return t('monoSavingsVbr')
+                  const stereoSize = estimateSizeRange(presetSettings, fileInfo)[1]
+                  const monoSize = estimateSizeRange(monoSettings(presetSettings), fileInfo)[1]
+                  return t('monoSavings').replace('{from}', formatFileSize(stereoSize)).replace('{to}', formatFileSize(monoSize))
+                })()}
+              </span>
+              {!autoMono && (
+                <button className="detect-btn" onClick={() => setAutoMono(true)} disabled={processing}>
+                  {t('useMono')}
+                </button>
+              )}
+            </div>
+          )}
+          <div className="custom-grid">
+            <div className="custom-item">
+              <label>{t('downmixMethod')}</label>
+              <select
+                value={downmixMethod}
+                onChange={(e) => setDownmixMethod(e.target.value as DownmixMethod)}
+                disabled={jobs.length === 0 || processing}
+              >
+                {downmixOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="custom-item">
+              <label>{t('stereoMode')}</label>
+              <select
+                value={stereoMode}
+                onChange={(e) => setStereoMode(e.target.value as StereoMode)}
+                disabled={jobs.length === 0 || processing || !stereoModeOptionNames[presetSettings.codec]}
+              >
+                {stereoModeOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
           </div>
-          <div className="progress-text">{progressText || `${progress}%`}</div>
+          <label className="checkbox-option checkbox-row">
+            <input
+              type="checkbox"
+              checked={autoMono}
+              onChange={(e) => setAutoMono(e.target.checked)}
+              disabled={jobs.length === 0 || processing}
+            />
+            {t('autoMono')}
+          </label>
+          <div className="custom-hint">{t('stereoHint')}</div>
         </div>
-      )}
+
+        <div className="custom-options">
+          <div className="option-header">
+            <span>{t('cleanupFilters')}</span>
+          </div>
+          {filterChain.map((stage, index) => {
+            const filter = getAudioFilter(stage.id)
+            return (
+              <div key={stage.id} className="filter-stage">
+                <div className="option-header">
+                  <label className="checkbox-option">
+                    <input
+                      type="checkbox"
+                      checked={stage.enabled}
+                      onChange={(e) => handleFilterToggle(index, e.target.checked)}
+                      disabled={jobs.length === 0 || processing}
+                    />
+                    {index + 1}. {t(filter.nameKey)}
+                  </label>
+                  <div className="filter-stage-order">
+                    <button
+                      onClick={() => handleMoveFilter(index, -1)}
+                      disabled={index === 0 || jobs.length === 0 || processing}
+                      title={t('filterMoveUp')}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMoveFilter(index, 1)}
+                      disabled={index === filterChain.length - 1 || jobs.length === 0 || processing}
+                      title={t('filterMoveDown')}
+                    >
+                      ↓
+                    </button>
+                  </div>
+                </div>
+                {stage.enabled && (
+                  <div className="custom-grid">
+                    {filter.params.map((param) => (
+                      <div key={param.key} className="custom-item">
+                        <label>{t(param.labelKey)}</label>
+                        <input
+                          type="number"
+                          min={param.min}
+                          max={param.max}
+                          step={param.step}
+                          value={stage.params[param.key]}
+                          onChange={(e) => handleFilterParam(index, param, Number(e.target.value))}
+                          disabled={jobs.length === 0 || processing}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+          <div className="custom-hint">{t('cleanupHint')}</div>
+        </div>
+
+        <div className="custom-options">
+          <div className="option-header">
+            <label className="checkbox-option">
+              <input
+                type="checkbox"
+                checked={loudnormEnabled}
+                onChange={(e) => setLoudnormEnabled(e.target.checked)}
+                disabled={jobs.length === 0 || processing}
+              />
+              {t('loudnessNormalization')}
+            </label>
+          </div>
+          {loudnormEnabled && (
+            <>
+              <div className="custom-grid">
+                <div className="custom-item">
+                  <label>{t('loudnessPlatform')}</label>
+                  <select
+                    value={loudnessPresets.find(p => p.integrated === loudnormTarget && p.truePeak === loudnormTruePeak)?.id ?? 'custom'}
+                    onChange={(e) => {
+                      const preset = loudnessPresets.find(p => p.id === e.target.value)
+                      if (preset) {
+                        setLoudnormTarget(preset.integrated)
+                        setLoudnormTruePeak(preset.truePeak)
+                      }
+                    }}
+                    disabled={jobs.length === 0 || processing}
+                  >
+                    {loudnessPresets.map((preset) => (
+                      <option key={preset.id} value={preset.id}>{t(preset.labelKey)}</option>
+                    ))}
+                    <option value="custom">{t('presetCustom')}</option>
+                  </select>
+                </div>
+                <div className="custom-item">
+                  <label>{t('targetLoudness')}</label>
+                  <input
+                    type="number"
+                    min="-70"
+                    max="-5"
+                    step="0.5"
+                    value={loudnormTarget}
+                    onChange={(e) => setLoudnormTarget(Math.min(-5, Math.max(-70, Number(e.target.value) || -16)))}
+                    disabled={jobs.length === 0 || processing}
+                  />
+                </div>
+                <div className="custom-item">
+                  <label>{t('truePeakCeiling')}</label>
+                  <input
+                    type="number"
+                    min="-9"
+                    max="0"
+                    step="0.5"
+                    value={loudnormTruePeak}
+                    onChange={(e) => setLoudnormTruePeak(Math.min(0, Math.max(-9, Number(e.target.value))))}
+                    disabled={jobs.length === 0 || processing}
+                  />
+                </div>
+              </div>
+              <div className="custom-hint">{t('loudnessHint')}</div>
+            </>
+          )}
+        </div>
+
+        {activeJob?.peaks && fileInfo && (
+          <div className="custom-options">
+            <div className="option-header">
+              <span>{t('trim')}</span>
+            </div>
+            <Waveform
+              peaks={activeJob.peaks}
+              duration={fileInfo.duration}
+              start={activeJob.trim?.start ?? 0}
+              end={activeJob.trim?.end ?? fileInfo.duration}
+              disabled={activeJob.status !== 'pending' || processing}
+              onChange={(start, end) => handleTrimChange(activeJob.id, fileInfo.duration, start, end)}
+            />
+            <div className="custom-hint">{t('trimHint')}</div>
+          </div>
+        )}
+
+        <div className="custom-options">
+          <div className="option-header">
+            <label className="checkbox-option">
+              <input
+                type="checkbox"
+                checked={silenceEnabled}
+                onChange={(e) => setSilenceEnabled(e.target.checked)}
+                disabled={jobs.length === 0 || processing}
+              />
+              {t('removeSilence')}
+            </label>
+            {silenceEnabled && activeJob && (
+              <button
+                className="detect-btn"
+                onClick={() => handleDetectSilence(activeJob)}
+                disabled={!loaded || processing || !activeJob.info || activeJob.status !== 'pending'}
+              >
+                {t('detectSilence')}
+              </button>
+            )}
+          </div>
+          {silenceEnabled && (
+            <>
+              <div className="custom-grid">
+                <div className="custom-item">
+                  <label>{t('silenceThreshold')}</label>
+                  <input
+                    type="number"
+                    min="-90"
+                    max="-10"
+                    step="1"
+                    value={silenceThreshold}
+                    onChange={(e) => setSilenceThreshold(Math.min(-10, Math.max(-90, Number(e.target.value) || -50)))}
+                    disabled={jobs.length === 0 || processing}
+                  />
+                </div>
+                <div className="custom-item">
+                  <label>{t('silenceMinDuration')}</label>
+                  <input
+                    type="number"
+                    min="0.1"
+                    max="30"
+                    step="0.1"
+                    value={silenceMinDuration}
+                    onChange={(e) => setSilenceMinDuration(Math.min(30, Math.max(0.1, Number(e.target.value) || 1)))}
+                    disabled={jobs.length === 0 || processing}
+                  />
+                </div>
+              </div>
+              {activeSilence && (
+                <div className="silence-regions">
+                  <div className="silence-summary">
+                    {activeSilence.regions.length === 0
+                      ? t('noSilenceFound')
+                      : t('silenceSummary')
+                        .replace('{count}', String(activeSilence.regions.length))
+                        .replace('{duration}', formatDuration(totalSilence(activeSilence.regions)))}
+                  </div>
+                  {activeSilence.regions.length > 0 && (
+                    <ul>
+                      {activeSilence.regions.map((region) => (
+                        <li key={region.start}>
+                          {formatDuration(region.start)} – {formatDuration(region.end)}
+                          <span>{(region.end - region.start).toFixed(1)} s</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              <div className="custom-hint">{t('silenceHint')}</div>
+            </>
+          )}
+        </div>
+
+        <div className="custom-options">
+          <div className="option-header">
+            <span>{t('sizePolicy')}</span>
+          </div>
+          <div className="custom-grid">
+            <div className="custom-item">
+              <label>{t('sizePolicyAction')}</label>
+              <select
+                value={sizePolicy}
+                onChange={(e) => setSizePolicy(e.target.value as SizePolicy)}
+                disabled={jobs.length === 0 || processing}
+              >
+                {sizePolicyOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="custom-item">
+              <label>{t('minSavings')}</label>
+              <input
+                type="number"
+                min="0"
+                max="90"
+                step="1"
+                value={minSavings}
+                onChange={(e) => setMinSavings(Math.min(90, Math.max(0, Number(e.target.value) || 0)))}
+                disabled={jobs.length === 0 || processing || sizePolicy === 'off'}
+              />
+            </div>
+          </div>
+          <div className="custom-hint">{t('sizePolicyHint')}</div>
+        </div>
+
+        <div className="custom-options">
+          <div className="option-header">
+            <span>{t('splitParts')}</span>
+          </div>
+          <div className="custom-grid">
+            <div className="custom-item">
+              <label>{t('splitMode')}</label>
+              <select
+                value={splitMode}
+                onChange={(e) => setSplitMode(e.target.value as SplitMode)}
+                disabled={jobs.length === 0 || processing}
+              >
+                {splitModeOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </div>
+            {splitMode === 'duration' && (
+              <div className="custom-item">
+                <label>{t('splitMinutes')}</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="600"
+                  step="1"
+                  value={splitMinutes}
+                  onChange={(e) => setSplitMinutes(Math.min(600, Math.max(1, Number(e.target.value) || 1)))}
+                  disabled={jobs.length === 0 || processing}
+                />
+              </div>
+            )}
+            {splitMode === 'size' && (
+              <div className="custom-item">
+                <label>{t('splitSizeMB')}</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="2048"
+                  step="1"
+                  value={splitSizeMB}
+                  onChange={(e) => setSplitSizeMB(Math.min(2048, Math.max(1, Number(e.target.value) || 1)))}
+                  disabled={jobs.length === 0 || processing}
+                />
+              </div>
+            )}
+            {splitMode !== 'off' && splitAtSilence && (
+              <div className="custom-item">
+                <label>{t('splitWindow')}</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="300"
+                  step="1"
+                  value={splitWindow}
+                  onChange={(e) => setSplitWindow(Math.min(300, Math.max(1, Number(e.target.value) || 1)))}
+                  disabled={jobs.length === 0 || processing}
+                />
+              </div>
+            )}
+          </div>
+          {splitMode !== 'off' && (
+            <label className="checkbox-option checkbox-row">
+              <input
+                type="checkbox"
+                checked={splitAtSilence}
+                onChange={(e) => setSplitAtSilence(e.target.checked)}
+                disabled={jobs.length === 0 || processing}
+              />
+              {t('splitAtSilence')}
+            </label>
+          )}
+          <div className="custom-hint">{t('splitHint')}</div>
+        </div>
+      </div>
+
+      {/* Progress */}
+      {processing && (() => {
+        // Average over the files being encoded in parallel
+        const running = jobs.filter(j => j.status === 'processing')
+        const progress = running.length > 0 ? Math.round(running.reduce((sum, j) => sum + j.progress, 0) / running.length) : 0
+        return (
+          <div className="progress-section">
+            <div className="progress-bar">
+              <div className="progress-fill" style={{ width: `${progress}%` }}></div>
+            </div>
+            <div className="progress-text">
+              {jobs.length > 1 && `${t('fileProgress').replace('{current}', String(finishedCount + 1)).replace('{total}', String(jobs.length))} · `}
+              {progressText || `${progress}%`}
+            </div>
+            <button className="cancel-btn" onClick={handleCancel}>
+              {t('cancel')}
+            </button>
+          </div>
+        )
+      })()}
 
       {/* Estimated Size */}
-      {file && fileInfo && !result && !processing && (() => {
-        const preset = presets.find(p => p.id === selectedPreset)!
-        const bitrate = selectedPreset === 'custom' ? customBitrate : preset.bitrate
-        const estimatedSize = Math.round(bitrate * 125 * fileInfo.duration)
+      {file && fileInfo && activeJob?.status === 'pending' && !processing && (() => {
+        const trimmedInfo = applyTrim(fileInfo, activeJob.trim, activeSilence)
+        const targetStep = selectedPreset === 'target'
+          ? targetSizeSteps[findTargetStep(targetSizeSteps, targetSizeBytes, trimmedInfo)]
+          : null
+        const settings = targetStep ?? presetSettings
+        const [minSize, maxSize] = estimateSizeRange(settings, trimmedInfo)
+        const estimatedSize = Math.round((minSize + maxSize) / 2)
         const compressionRatio = Math.round((1 - estimatedSize / fileInfo.size) * 100)
         return (
           <div className="estimate-info">
-            <span>{t('estimatedSize')} <strong>{formatFileSize(estimatedSize)}</strong></span>
+            <span>{t('willUse')} <strong>{formatSettings(settings)}</strong></span>
+            <span>
+              {t('estimatedSize')}{' '}
+              <strong>{minSize === maxSize ? formatFileSize(estimatedSize) : `${formatFileSize(minSize)} – ${formatFileSize(maxSize)}`}</strong>
+            </span>
             <span>{t('compressionRatio')} <strong className={compressionRatio > 0 ? 'positive' : 'negative'}>{compressionRatio > 0 ? `-${compressionRatio}%` : `+${Math.abs(compressionRatio)}%`}</strong></span>
+            {maxSize > MAX_OUTPUT_BYTES && (
+              <div className="large-file-warning">
+                {t('outputTooLarge').replace('{limit}', formatFileSize(MAX_OUTPUT_BYTES))}
+              </div>
+            )}
           </div>
         )
       })()}
 
       {/* Compress Button */}
-      {file && !result && (
+      {(pendingCount > 0 || processing) && (
         <button
           className="compress-btn"
           onClick={handleCompress}
           disabled={processing || !loaded}
         >
-          {processing ? t('compressing') : t('startCompress')}
+          {processing
+            ? t('compressing')
+            : pendingCount > 1 ? t('startCompressCount').replace('{count}', String(pendingCount)) : t('startCompress')}
         </button>
       )}
 
       {/* Result */}
-      {result && fileInfo && (
+      {activeJob && result && fileInfo && !processing && (
         <div className="result-section">
           <div className="result-header">
             <div className="success-icon">
@@ -522,7 +2668,7 @@ function App() {
                 <polyline points="20 6 9 17 4 12"></polyline>
               </svg>
             </div>
-            <h3>{t('compressionComplete')}</h3>
+            <h3>{result.encodedSize === null ? t('compressionComplete') : t('statusSkipped')}</h3>
           </div>
           <div className="result-stats">
             <div className="stat-item">
@@ -531,11 +2677,11 @@ function App() {
             </div>
             <div className="stat-item">
               <div className="stat-label">{t('compressedSize')}</div>
-              <div className="stat-value">{formatFileSize(result.size)}</div>
+              <div className="stat-value">{formatFileSize(result.encodedSize ?? result.size)}</div>
             </div>
             <div className="stat-item">
               {(() => {
-                const saved = Math.round((1 - result.size / fileInfo.size) * 100)
+                const saved = Math.round((1 - (result.encodedSize ?? result.size) / fileInfo.size) * 100)
                 return saved >= 0 ? (
                   <>
                     <div className="stat-label">{t('saved')}</div>
@@ -550,17 +2696,117 @@ function App() {
               })()}
             </div>
           </div>
+          {result.encodedSize !== null && (
+            <div className="result-params">
+              {t('keptOriginal').replace('{percent}', String(minSavings))}
+            </div>
+          )}
+          {result.oversized && (
+            <div className="result-params">
+              {t('keptOversized').replace('{percent}', String(minSavings))}
+            </div>
+          )}
+          {result.parts && (
+            <div className="result-params">
+              {t('splitResult').replace('{count}', String(result.parts.length))}
+              <ol className="result-parts">
+                {result.parts.map((part, index) => (
+                  <li key={index}>
+                    {getPartFileName(activeJob, index)} · {formatDuration(part.end - part.start)} · <strong>{formatFileSize(part.blob.size)}</strong>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+          {result.duration !== null && Math.abs(result.duration - fileInfo.duration) >= 0.5 && (
+            <div className="result-params">
+              {t('duration')}:{' '}
+              <strong>{formatDuration(fileInfo.duration)} → {formatDuration(result.duration)}</strong>
+              {' '}(−{formatDuration(fileInfo.duration - result.duration)})
+            </div>
+          )}
+          {result.loudness && (
+            <div className="result-params">
+              {t('loudness')}:{' '}
+              <strong>{result.loudness.inputIntegrated.toFixed(1)} LUFS → {result.loudness.outputIntegrated.toFixed(1)} LUFS</strong>
+              {' · '}{t('truePeak')}:{' '}
+              <strong>{result.loudness.inputTruePeak.toFixed(1)} → {result.loudness.outputTruePeak.toFixed(1)} dBTP</strong>
+            </div>
+          )}
+          {result.targetSize !== null && (
+            <div className="result-params">
+              {t('targetSize')}: <strong>{formatFileSize(result.targetSize)}</strong>
+              {' · '}{t('usedParams')} <strong>{formatSettings(result.settings)}</strong>
+              {result.size > result.targetSize && <div>{t('targetMissed')}</div>}
+            </div>
+          )}
+          {result.encodedSize === null && (result.quality ? (
+            <div className="quality-report">
+              <div className="quality-metrics">
+                <div className="quality-metric">
+                  <span>{t('snr')}</span>
+                  <strong>{result.quality.snr === null ? '—' : `${result.quality.snr.toFixed(1)} dB`}</strong>
+                </div>
+                <div className="quality-metric">
+                  <span>{t('spectralDifference')}</span>
+                  <strong>{result.quality.spectralDifference === null ? '—' : `${result.quality.spectralDifference.toFixed(1)} dB`}</strong>
+                </div>
+                <div className="quality-metric">
+                  <span>{t('frequencyCutoff')}</span>
+                  <strong>
+                    {(result.quality.originalCutoff / 1000).toFixed(1)} → {(result.quality.compressedCutoff / 1000).toFixed(1)} kHz
+                  </strong>
+                </div>
+              </div>
+              {result.quality.snr === null && <div className="custom-hint">{t('qualityNotComparable')}</div>}
+              <Spectrogram
+                spectrogram={result.quality.originalSpectrogram}
+                label={t('abOriginal')}
+                cutoff={result.quality.originalCutoff}
+              />
+              <Spectrogram
+                spectrogram={result.quality.compressedSpectrogram}
+                label={t('abCompressed')}
+                cutoff={result.quality.compressedCutoff}
+              />
+              <div className="custom-hint">{t('qualityHint')}</div>
+            </div>
+          ) : !fileInfo.streamed && (
+            <button className="ab-link" onClick={() => handleAnalyzeQuality(activeJob)} disabled={analyzing}>
+              {analyzing ? t('analyzingQuality') : t('analyzeQuality')}
+            </button>
+          ))}
+          {result.encodedSize === null && (
+            <ABPlayer
+              key={activeJob.id}
+              audioRef={audioRef}
+              original={activeJob.file}
+              compressed={result.blob}
+              trim={activeJob.trim}
+              silenceRemoved={result.silenceRemoved}
+              gain={result.loudness ? result.loudness.outputIntegrated - result.loudness.inputIntegrated : 0}
+            />
+          )}
           <div className="result-buttons">
-            <button className="redo-btn" onClick={() => setResult(null)}>
+            <button className="redo-btn" onClick={() => handleRecompress(activeJob)}>
               {t('recompress')}
             </button>
-            <button className="download-btn" onClick={handleDownload}>
-              {t('download')}
+            <button className="download-btn" onClick={() => handleDownload(activeJob)} disabled={zipping}>
+              {result.encodedSize !== null
+                ? t('downloadOriginal')
+                : result.parts ? t('downloadParts').replace('{count}', String(result.parts.length)) : t('download')}
             </button>
           </div>
         </div>
       )}
 
+      {/* Download All */}
+      {doneCount > 1 && !processing && (
+        <button className="download-btn download-all-btn" onClick={handleDownloadAll} disabled={zipping}>
+          {zipping ? t('creatingZip') : t('downloadAll').replace('{count}', String(doneCount))}
+        </button>
+      )}
+
       {/* Error */}
       {error && (
         <div className="error-message">{error}</div>
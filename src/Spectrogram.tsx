@@ -0,0 +1,65 @@
+import { useRef, useEffect } from 'react'
+import { Spectrogram as SpectrogramData } from './audioAnalysis'
+
+interface SpectrogramProps {
+  spectrogram: SpectrogramData
+  label: string
+  // Detected high-frequency cutoff in Hz, marked with a line
+  cutoff: number
+}
+
+const ROWS = 256
+// dB range mapped onto the colour scale
+const FLOOR_DB = -120
+
+// Black → red → yellow → white
+function heat(value: number): [number, number, number] {
+  const v = Math.min(1, Math.max(0, value)) * 3
+  return [Math.min(1, v) * 255, Math.min(1, Math.max(0, v - 1)) * 255, Math.min(1, Math.max(0, v - 2)) * 255]
+}
+
+export default function Spectrogram({ spectrogram, label, cutoff }: SpectrogramProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const nyquist = spectrogram.sampleRate / 2
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    const { data, columns, bins } = spectrogram
+    canvas.width = columns
+    canvas.height = ROWS
+    const image = ctx.createImageData(columns, ROWS)
+    const binsPerRow = bins / ROWS
+
+    for (let x = 0; x < columns; x++) {
+      for (let row = 0; row < ROWS; row++) {
+        // Loudest bin in the row; high frequencies at the top
+        let level = FLOOR_DB
+        const from = Math.floor((ROWS - 1 - row) * binsPerRow)
+        for (let k = from; k < from + binsPerRow; k++) level = Math.max(level, data[x * bins + k])
+        const [r, g, b] = heat((level - FLOOR_DB) / -FLOOR_DB)
+        const i = (row * columns + x) * 4
+        image.data[i] = r
+        image.data[i + 1] = g
+        image.data[i + 2] = b
+        image.data[i + 3] = 255
+      }
+    }
+    ctx.putImageData(image, 0, 0)
+  }, [spectrogram])
+
+  return (
+    <div className="spectrogram">
+      <div className="spectrogram-label">
+        <span>{label}</span>
+        <span>{(nyquist / 1000).toFixed(1)} kHz</span>
+      </div>
+      <div className="spectrogram-view">
+        <canvas ref={canvasRef} />
+        <div className="spectrogram-cutoff" style={{ bottom: `${Math.min(100, (cutoff / nyquist) * 100)}%` }} />
+      </div>
+    </div>
+  )
+}
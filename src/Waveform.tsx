@@ -0,0 +1,164 @@
+import { useState, useRef, useEffect, useCallback } from 'react'
+import { useI18n } from './useI18n'
+
+interface WaveformProps {
+  // Interleaved [min, max] pairs spread evenly over the duration
+  peaks: Float32Array
+  duration: number
+  start: number
+  end: number
+  disabled?: boolean
+  onChange: (start: number, end: number) => void
+}
+
+const HEIGHT = 96
+const MAX_ZOOM = 64
+// Shortest selection the handles can be dragged to
+const MIN_SELECTION = 0.1
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins}:${secs.toFixed(1).padStart(4, '0')}`
+}
+
+export default function Waveform({ peaks, duration, start, end, disabled, onChange }: WaveformProps) {
+  const { t } = useI18n()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+  const [zoom, setZoom] = useState(1)
+  const [viewStart, setViewStart] = useState(0)
+  const [dragging, setDragging] = useState<'start' | 'end' | null>(null)
+
+  const viewDuration = duration / zoom
+  const visibleStart = Math.max(0, Math.min(viewStart, duration - viewDuration))
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // Draw the visible part of the waveform, one min/max bar per pixel column
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || width === 0 || duration <= 0) return
+
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = Math.round(width * ratio)
+    canvas.height = Math.round(HEIGHT * ratio)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.scale(ratio, ratio)
+    ctx.clearRect(0, 0, width, HEIGHT)
+    ctx.fillStyle = getComputedStyle(canvas).color
+
+    const bucketCount = peaks.length / 2
+    const mid = HEIGHT / 2
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(((visibleStart + (x / width) * viewDuration) / duration) * bucketCount)
+      const to = Math.max(from + 1, Math.floor(((visibleStart + ((x + 1) / width) * viewDuration) / duration) * bucketCount))
+      let min = 0
+      let max = 0
+      for (let b = from; b < to && b < bucketCount; b++) {
+        if (peaks[b * 2] < min) min = peaks[b * 2]
+        if (peaks[b * 2 + 1] > max) max = peaks[b * 2 + 1]
+      }
+      ctx.fillRect(x, mid - max * mid, 1, Math.max(1, (max - min) * mid))
+    }
+  }, [peaks, duration, width, visibleStart, viewDuration])
+
+  const timeAt = useCallback((clientX: number): number => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width))
+    return visibleStart + fraction * viewDuration
+  }, [visibleStart, viewDuration])
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (!dragging) return
+    const time = timeAt(e.clientX)
+    if (dragging === 'start') {
+      onChange(Math.min(time, end - MIN_SELECTION), end)
+    } else {
+      onChange(start, Math.max(time, start + MIN_SELECTION))
+    }
+  }, [dragging, timeAt, start, end, onChange])
+
+  const beginDrag = (handle: 'start' | 'end') => (e: React.PointerEvent) => {
+    if (disabled) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDragging(handle)
+  }
+
+  // Zoom around the centre of the current view
+  const changeZoom = (factor: number) => {
+    const next = Math.min(MAX_ZOOM, Math.max(1, zoom * factor))
+    const centre = visibleStart + viewDuration / 2
+    setZoom(next)
+    setViewStart(Math.max(0, centre - duration / next / 2))
+  }
+
+  const toPercent = (time: number) => ((time - visibleStart) / viewDuration) * 100
+
+  return (
+    <div className={`waveform ${disabled ? 'disabled' : ''}`}>
+      <div
+        ref={containerRef}
+        className="waveform-view"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+      >
+        <canvas ref={canvasRef} className="waveform-canvas" style={{ height: HEIGHT }} />
+        <div className="waveform-shade" style={{ left: 0, width: `${Math.max(0, Math.min(100, toPercent(start)))}%` }} />
+        <div className="waveform-shade" style={{ left: `${Math.max(0, Math.min(100, toPercent(end)))}%`, right: 0 }} />
+        {toPercent(start) >= 0 && toPercent(start) <= 100 && (
+          <div
+            className="waveform-handle"
+            style={{ left: `${toPercent(start)}%` }}
+            onPointerDown={beginDrag('start')}
+            title={t('trimStart')}
+          />
+        )}
+        {toPercent(end) >= 0 && toPercent(end) <= 100 && (
+          <div
+            className="waveform-handle"
+            style={{ left: `${toPercent(end)}%` }}
+            onPointerDown={beginDrag('end')}
+            title={t('trimEnd')}
+          />
+        )}
+      </div>
+
+      {zoom > 1 && (
+        <input
+          className="waveform-scroll"
+          type="range"
+          min={0}
+          max={duration - viewDuration}
+          step="any"
+          value={visibleStart}
+          onChange={(e) => setViewStart(Number(e.target.value))}
+        />
+      )}
+
+      <div className="waveform-controls">
+        <span>
+          {t('trimStart')} <strong>{formatTime(start)}</strong>
+          {' · '}{t('trimEnd')} <strong>{formatTime(end)}</strong>
+          {' · '}{t('trimLength')} <strong>{formatTime(end - start)}</strong>
+        </span>
+        <div className="waveform-buttons">
+          <button onClick={() => changeZoom(0.5)} disabled={zoom <= 1} title={t('zoomOut')}>−</button>
+          <button onClick={() => changeZoom(2)} disabled={zoom >= MAX_ZOOM} title={t('zoomIn')}>+</button>
+          <button onClick={() => onChange(0, duration)} disabled={disabled || (start === 0 && end === duration)}>
+            {t('trimReset')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
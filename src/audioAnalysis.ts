@@ -0,0 +1,409 @@
+// Upper bound on waveform buckets so long recordings stay small in memory
+const MAX_PEAK_BUCKETS = 200000
+const PEAK_BUCKETS_PER_SECOND = 200
+
+/**
+ * Reduce decoded audio to interleaved [min, max] pairs, taken across all
+ * channels, for drawing a waveform at any zoom level.
+ */
+export function computePeaks(buffer: AudioBuffer): Float32Array {
+  const buckets = Math.max(1, Math.min(MAX_PEAK_BUCKETS, Math.ceil(buffer.duration * PEAK_BUCKETS_PER_SECOND)))
+  const peaks = new Float32Array(buckets * 2)
+  const samplesPerBucket = buffer.length / buckets
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c)
+    for (let b = 0; b < buckets; b++) {
+      const from = Math.floor(b * samplesPerBucket)
+      const to = Math.min(data.length, Math.floor((b + 1) * samplesPerBucket))
+      let min = peaks[b * 2]
+      let max = peaks[b * 2 + 1]
+      for (let i = from; i < to; i++) {
+        const sample = data[i]
+        if (sample < min) min = sample
+        if (sample > max) max = sample
+      }
+      peaks[b * 2] = min
+      peaks[b * 2 + 1] = max
+    }
+  }
+
+  return peaks
+}
+
+const FFT_SIZE = 2048
+const SPECTROGRAM_COLUMNS = 600
+const SPECTRAL_FRAMES = 300
+// Cross-correlation search range for encoder delay, in samples
+const MAX_LAG = 4096
+const LAG_WINDOW = 8192
+// Floor for dB conversions, well below 16-bit noise
+const MIN_DB = -140
+
+export interface Spectrogram {
+  // Column-major dB values, `bins` per column
+  data: Float32Array
+  columns: number
+  bins: number
+  sampleRate: number
+}
+
+export interface QualityReport {
+  // Null when the output's timeline no longer matches the source (e.g. silence removed)
+  snr: number | null
+  spectralDifference: number | null
+  originalCutoff: number
+  compressedCutoff: number
+  originalSpectrogram: Spectrogram
+  compressedSpectrogram: Spectrogram
+}
+
+/**
+ * Decode a file with Web Audio. The result is resampled to the context's
+ * rate, so two buffers decoded here can be compared sample by sample.
+ */
+export async function decodeAudio(blob: Blob): Promise<AudioBuffer> {
+  const audioContext = new AudioContext()
+  try {
+    return await audioContext.decodeAudioData(await blob.arrayBuffer())
+  } finally {
+    // Failing to close only leaks the context; it mustn't replace the decode result
+    audioContext.close().catch(() => {})
+  }
+}
+
+function mixToMono(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length)
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c)
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels
+  }
+  return mono
+}
+
+// In-place radix-2 FFT; length must be a power of two
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const tRe = re[i]
+      const tIm = im[i]
+      re[i] = re[j]
+      im[i] = im[j]
+      re[j] = tRe
+      im[j] = tIm
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const a = start + k
+        const b = a + size / 2
+        const tRe = re[b] * cos - im[b] * sin
+        const tIm = re[b] * sin + im[b] * cos
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+      }
+    }
+  }
+}
+
+const hann = Float32Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)))
+
+// Windowed power spectrum of one frame in dB, scaled so a full-scale sine reads about 0 dB
+function frameSpectrum(samples: Float32Array, offset: number, out: Float32Array): void {
+  const re = new Float32Array(FFT_SIZE)
+  const im = new Float32Array(FFT_SIZE)
+  for (let i = 0; i < FFT_SIZE; i++) re[i] = (samples[offset + i] ?? 0) * hann[i]
+  fft(re, im)
+  const scale = FFT_SIZE / 4
+  for (let k = 0; k < out.length; k++) {
+    const power = (re[k] * re[k] + im[k] * im[k]) / (scale * scale)
+    out[k] = Math.max(MIN_DB, 10 * Math.log10(power + 1e-20))
+  }
+}
+
+function computeSpectrogram(samples: Float32Array, sampleRate: number): Spectrogram {
+  const bins = FFT_SIZE / 2
+  const frames = Math.max(1, Math.floor((samples.length - FFT_SIZE) / (FFT_SIZE / 2)))
+  const columns = Math.min(SPECTROGRAM_COLUMNS, frames)
+  const hop = Math.max(0, samples.length - FFT_SIZE) / columns
+  const data = new Float32Array(columns * bins)
+  for (let c = 0; c < columns; c++) {
+    frameSpectrum(samples, Math.floor(c * hop), data.subarray(c * bins, (c + 1) * bins))
+  }
+  return { data, columns, bins, sampleRate }
+}
+
+/**
+ * Highest frequency that still carries content: the top of the averaged
+ * spectrum where it rises above 50 dB under the 1–4 kHz reference band.
+ */
+function detectCutoff(spectrogram: Spectrogram): number {
+  const { data, columns, bins, sampleRate } = spectrogram
+  const average = new Float32Array(bins)
+  for (let c = 0; c < columns; c++) {
+    for (let k = 0; k < bins; k++) average[k] += data[c * bins + k] / columns
+  }
+  const binHz = sampleRate / FFT_SIZE
+  const from = Math.floor(1000 / binHz)
+  const to = Math.floor(4000 / binHz)
+  let reference = 0
+  for (let k = from; k < to; k++) reference += average[k] / (to - from)
+  for (let k = bins - 1; k > to; k--) {
+    if (average[k] > reference - 50) return Math.round(k * binHz)
+  }
+  return Math.round(to * binHz)
+}
+
+// Let the browser paint and handle input between long analysis steps
+function yieldToBrowser(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve))
+}
+
+/**
+ * Encoder delay between the two signals, found by cross-correlating the
+ * loudest window. The correlation for every lag comes from one FFT round
+ * trip instead of a multiply-add loop per lag.
+ */
+function findLag(original: Float32Array, compressed: Float32Array): number {
+  let start = MAX_LAG
+  let loudest = -1
+  const stride = Math.max(LAG_WINDOW, Math.floor(original.length / 64))
+  for (let candidate = MAX_LAG; candidate + LAG_WINDOW + MAX_LAG <= original.length; candidate += stride) {
+    let energy = 0
+    for (let i = 0; i < LAG_WINDOW; i++) energy += original[candidate + i] * original[candidate + i]
+    if (energy > loudest) {
+      loudest = energy
+      start = candidate
+    }
+  }
+  const length = Math.min(LAG_WINDOW, original.length - start, compressed.length - start - MAX_LAG)
+  if (length <= 0) return 0
+
+  // Zero padding to cover the window plus both lag ranges keeps the circular correlation from wrapping
+  let size = 1
+  while (size < length + 2 * MAX_LAG) size <<= 1
+  const aRe = new Float32Array(size)
+  const aIm = new Float32Array(size)
+  const bRe = new Float32Array(size)
+  const bIm = new Float32Array(size)
+  for (let i = 0; i < length; i++) aRe[i] = original[start + i]
+  for (let i = 0; i < length + 2 * MAX_LAG; i++) bRe[i] = compressed[start - MAX_LAG + i] ?? 0
+  fft(aRe, aIm)
+  fft(bRe, bIm)
+  // A · conj(B) run through the forward transform again gives the correlation at index MAX_LAG + lag
+  for (let k = 0; k < size; k++) {
+    const re = aRe[k] * bRe[k] + aIm[k] * bIm[k]
+    const im = aIm[k] * bRe[k] - aRe[k] * bIm[k]
+    aRe[k] = re
+    aIm[k] = im
+  }
+  fft(aRe, aIm)
+
+  let bestLag = 0
+  let best = -Infinity
+  for (let lag = -MAX_LAG; lag <= MAX_LAG; lag++) {
+    if (aRe[MAX_LAG + lag] > best) {
+      best = aRe[MAX_LAG + lag]
+      bestLag = lag
+    }
+  }
+  return bestLag
+}
+
+// Signal-to-noise ratio after matching gain, so loudness changes don't count as noise
+function computeSnr(original: Float32Array, compressed: Float32Array, lag: number): number {
+  const from = Math.max(0, -lag)
+  const to = Math.min(original.length, compressed.length - lag)
+  let cross = 0
+  let compressedEnergy = 0
+  for (let i = from; i < to; i++) {
+    cross += original[i] * compressed[i + lag]
+    compressedEnergy += compressed[i + lag] * compressed[i + lag]
+  }
+  const gain = compressedEnergy > 0 ? cross / compressedEnergy : 1
+  let signal = 0
+  let noise = 0
+  for (let i = from; i < to; i++) {
+    const error = original[i] - compressed[i + lag] * gain
+    signal += original[i] * original[i]
+    noise += error * error
+  }
+  return noise > 0 ? 10 * Math.log10(signal / noise) : Infinity
+}
+
+// Log-spectral distance in dB, averaged over aligned frames that aren't silent
+function computeSpectralDifference(original: Float32Array, compressed: Float32Array, lag: number): number {
+  const bins = FFT_SIZE / 2
+  const a = new Float32Array(bins)
+  const b = new Float32Array(bins)
+  const from = Math.max(0, -lag)
+  const to = Math.min(original.length, compressed.length - lag) - FFT_SIZE
+  const step = Math.max(FFT_SIZE, (to - from) / SPECTRAL_FRAMES)
+  let total = 0
+  let frames = 0
+  for (let offset = from; offset < to; offset += step) {
+    const position = Math.floor(offset)
+    frameSpectrum(original, position, a)
+    frameSpectrum(compressed, position + lag, b)
+    if (Math.max(...a) < -60) continue
+    let sum = 0
+    for (let k = 0; k < bins; k++) sum += (a[k] - b[k]) ** 2
+    total += Math.sqrt(sum / bins)
+    frames++
+  }
+  return frames > 0 ? total / frames : 0
+}
+
+/**
+ * Compare the encoded section of the original (`start` to `end`, in seconds)
+ * with the compressed output. Sample-level metrics are only computed when the
+ * output's length matches that section. Runs on the main thread, yielding
+ * between steps so the page stays responsive.
+ */
+export async function analyzeQuality(original: AudioBuffer, compressed: AudioBuffer, start: number, end: number): Promise<QualityReport> {
+  const sampleRate = original.sampleRate
+  const section = mixToMono(original).subarray(Math.floor(start * sampleRate), Math.floor(end * sampleRate))
+  const output = mixToMono(compressed)
+  await yieldToBrowser()
+  const originalSpectrogram = computeSpectrogram(section, sampleRate)
+  await yieldToBrowser()
+  const compressedSpectrogram = computeSpectrogram(output, compressed.sampleRate)
+
+  let snr: number | null = null
+  let spectralDifference: number | null = null
+  const comparable = compressed.sampleRate === sampleRate && Math.abs(compressed.duration - (end - start)) < 0.5
+  if (comparable) {
+    await yieldToBrowser()
+    const lag = findLag(section, output)
+    await yieldToBrowser()
+    snr = computeSnr(section, output, lag)
+    await yieldToBrowser()
+    spectralDifference = computeSpectralDifference(section, output, lag)
+  }
+
+  return {
+    snr,
+    spectralDifference,
+    originalCutoff: detectCutoff(originalSpectrogram),
+    compressedCutoff: detectCutoff(compressedSpectrogram),
+    originalSpectrogram,
+    compressedSpectrogram,
+  }
+}
+
+export interface SourceAnalysis {
+  // Left and right carry the same signal, or there is only one channel
+  effectivelyMono: boolean
+  // Left and right differ too little to hear, so a mono downmix sounds the same
+  nearlyMono: boolean
+  // Side (L−R) level relative to mid (L+R) in dB; null for single-channel or silent sources
+  sideLevel: number | null
+  // A channel that is silent while the other is not
+  deadChannel: 'left' | 'right' | null
+  speech: boolean
+  // Highest frequency with content, in Hz
+  frequencyCeiling: number
+}
+
+// Side (L−R) energy below this fraction of mid (L+R) energy, about −60 dB, counts as mono
+const MONO_THRESHOLD = 1e-6
+// About −40 dB: the difference is buried under the encoder's own noise
+const NEAR_MONO_THRESHOLD = 1e-4
+const ENVELOPE_FRAME_SECONDS = 0.02
+// Frames compared against the average level of the surrounding second
+const ENVELOPE_WINDOW_FRAMES = 50
+
+type StereoAnalysis = Pick<SourceAnalysis, 'effectivelyMono' | 'nearlyMono' | 'sideLevel' | 'deadChannel'>
+
+// Compare the first two channels; a dead channel uses the same −60 dB threshold as mono
+function analyzeStereo(buffer: AudioBuffer): StereoAnalysis {
+  if (buffer.numberOfChannels < 2) {
+    return { effectivelyMono: true, nearlyMono: true, sideLevel: null, deadChannel: null }
+  }
+  const left = buffer.getChannelData(0)
+  const right = buffer.getChannelData(1)
+  let side = 0
+  let mid = 0
+  let leftEnergy = 0
+  let rightEnergy = 0
+  for (let i = 0; i < left.length; i++) {
+    side += (left[i] - right[i]) ** 2
+    mid += (left[i] + right[i]) ** 2
+    leftEnergy += left[i] ** 2
+    rightEnergy += right[i] ** 2
+  }
+  const ratio = mid === 0 ? 0 : side / mid
+  return {
+    effectivelyMono: ratio < MONO_THRESHOLD,
+    nearlyMono: ratio < NEAR_MONO_THRESHOLD,
+    sideLevel: mid === 0 ? null : 10 * Math.log10(ratio),
+    deadChannel: leftEnergy < rightEnergy * MONO_THRESHOLD ? 'left' : rightEnergy < leftEnergy * MONO_THRESHOLD ? 'right' : null,
+  }
+}
+
+/**
+ * Speech alternates syllables with short pauses, so a large share of 20 ms
+ * frames is much quieter than the second around them ("low energy ratio");
+ * it also keeps most of its energy between 100 Hz and 4 kHz.
+ */
+function isSpeech(samples: Float32Array, sampleRate: number, spectrogram: Spectrogram): boolean {
+  const frameLength = Math.round(sampleRate * ENVELOPE_FRAME_SECONDS)
+  const count = Math.floor(samples.length / frameLength)
+  if (count < ENVELOPE_WINDOW_FRAMES) return false
+
+  const rms = new Float32Array(count)
+  const cumulative = new Float64Array(count + 1)
+  for (let f = 0; f < count; f++) {
+    let sum = 0
+    for (let i = f * frameLength; i < (f + 1) * frameLength; i++) sum += samples[i] * samples[i]
+    rms[f] = Math.sqrt(sum / frameLength)
+    cumulative[f + 1] = cumulative[f] + rms[f]
+  }
+
+  let low = 0
+  let counted = 0
+  for (let f = 0; f < count; f++) {
+    const from = Math.max(0, f - ENVELOPE_WINDOW_FRAMES / 2)
+    const to = Math.min(count, f + ENVELOPE_WINDOW_FRAMES / 2)
+    const average = (cumulative[to] - cumulative[from]) / (to - from)
+    // Digital silence says nothing about the content
+    if (average < 1e-4) continue
+    counted++
+    if (rms[f] < average / 2) low++
+  }
+
+  const { data, columns, bins } = spectrogram
+  const binHz = sampleRate / FFT_SIZE
+  let voice = 0
+  let total = 0
+  for (let c = 0; c < columns; c++) {
+    for (let k = 1; k < bins; k++) {
+      const power = 10 ** (data[c * bins + k] / 10)
+      total += power
+      if (k * binHz >= 100 && k * binHz <= 4000) voice += power
+    }
+  }
+
+  return counted > 0 && low / counted > 0.35 && total > 0 && voice / total > 0.7
+}
+
+// Describe the source so a preset can be suggested that doesn't waste bits
+export function analyzeSource(buffer: AudioBuffer): SourceAnalysis {
+  const samples = mixToMono(buffer)
+  const spectrogram = computeSpectrogram(samples, buffer.sampleRate)
+  return {
+    ...analyzeStereo(buffer),
+    speech: isSpeech(samples, buffer.sampleRate, spectrogram),
+    frequencyCeiling: detectCutoff(spectrogram),
+  }
+}
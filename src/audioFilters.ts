@@ -0,0 +1,108 @@
+export type AudioFilterId = 'highpass' | 'denoise' | 'compressor' | 'deesser'
+
+// One filter in the cleanup chain; the chain runs in array order
+export interface FilterStage {
+  id: AudioFilterId
+  enabled: boolean
+  params: Record<string, number>
+}
+
+export interface FilterParam {
+  key: string
+  labelKey: string
+  min: number
+  max: number
+  step: number
+  default: number
+}
+
+export interface AudioFilterInfo {
+  id: AudioFilterId
+  nameKey: string
+  params: FilterParam[]
+  // FFmpeg filter expression for the given parameters
+  build: (params: Record<string, number>) => string
+}
+
+export const audioFilters: AudioFilterInfo[] = [
+  {
+    id: 'highpass',
+    nameKey: 'filterHighpass',
+    params: [
+      { key: 'frequency', labelKey: 'filterFrequencyHz', min: 20, max: 300, step: 5, default: 80 },
+    ],
+    build: p => `highpass=f=${p.frequency}:poles=2`,
+  },
+  {
+    id: 'denoise',
+    nameKey: 'filterDenoise',
+    params: [
+      { key: 'reduction', labelKey: 'filterReduction', min: 1, max: 97, step: 1, default: 12 },
+      { key: 'noiseFloor', labelKey: 'filterNoiseFloor', min: -80, max: -20, step: 1, default: -50 },
+    ],
+    build: p => `afftdn=nr=${p.reduction}:nf=${p.noiseFloor}`,
+  },
+  {
+    id: 'compressor',
+    nameKey: 'filterCompressor',
+    params: [
+      { key: 'threshold', labelKey: 'filterThreshold', min: -60, max: 0, step: 1, default: -20 },
+      { key: 'ratio', labelKey: 'filterRatio', min: 1, max: 20, step: 0.5, default: 3 },
+      { key: 'attack', labelKey: 'filterAttack', min: 1, max: 200, step: 1, default: 20 },
+      { key: 'release', labelKey: 'filterRelease', min: 10, max: 2000, step: 10, default: 250 },
+      { key: 'makeup', labelKey: 'filterMakeup', min: 0, max: 24, step: 1, default: 3 },
+    ],
+    // acompressor takes linear levels; FFmpeg converts the dB suffix
+    build: p => `acompressor=threshold=${p.threshold}dB:ratio=${p.ratio}:attack=${p.attack}:release=${p.release}:makeup=${p.makeup}dB`,
+  },
+  {
+    id: 'deesser',
+    nameKey: 'filterDeesser',
+    params: [
+      { key: 'intensity', labelKey: 'filterIntensity', min: 0, max: 1, step: 0.05, default: 0.5 },
+      // Fraction of the Nyquist frequency where sibilance detection starts
+      { key: 'frequency', labelKey: 'filterSplit', min: 0, max: 1, step: 0.05, default: 0.5 },
+    ],
+    build: p => `deesser=i=${p.intensity}:m=0.5:f=${p.frequency}`,
+  },
+]
+
+export function getAudioFilter(id: AudioFilterId): AudioFilterInfo {
+  return audioFilters.find(f => f.id === id)!
+}
+
+// Every filter in the default order with default parameters
+export function createFilterChain(enabled: boolean): FilterStage[] {
+  return audioFilters.map(filter => ({
+    id: filter.id,
+    enabled,
+    params: Object.fromEntries(filter.params.map(p => [p.key, p.default])),
+  }))
+}
+
+// FFmpeg expressions of the enabled stages, in chain order
+export function buildFilterChain(chain: FilterStage[]): string[] {
+  return chain.filter(stage => stage.enabled).map(stage => getAudioFilter(stage.id).build(stage.params))
+}
+
+/**
+ * Check a stored or imported chain: each filter exactly once, known
+ * parameters within range. Returns a normalized copy, or null if invalid.
+ */
+export function parseFilterChain(value: unknown): FilterStage[] | null {
+  if (!Array.isArray(value) || value.length !== audioFilters.length) return null
+  const chain: FilterStage[] = []
+  for (const entry of value as Record<string, unknown>[]) {
+    const filter = audioFilters.find(f => f.id === entry?.id)
+    if (!filter || chain.some(stage => stage.id === filter.id) || typeof entry.enabled !== 'boolean') return null
+    const params = (entry.params ?? {}) as Record<string, unknown>
+    const values: Record<string, number> = {}
+    for (const param of filter.params) {
+      const v = params[param.key]
+      if (typeof v !== 'number' || v < param.min || v > param.max) return null
+      values[param.key] = v
+    }
+    chain.push({ id: filter.id, enabled: entry.enabled, params: values })
+  }
+  return chain
+}
@@ -0,0 +1,104 @@
+export type OutputCodec = 'mp3' | 'opus' | 'aac' | 'vorbis' | 'flac'
+
+export type RateControl = 'cbr' | 'vbr' | 'abr'
+
+export interface EncodeSettings {
+  codec: OutputCodec
+  rateControl: RateControl
+  // Constant or average bitrate; for VBR the nominal bitrate of the quality level
+  bitrate: number
+  vbrQuality: number
+  sampleRate: number | null
+  channels: number | null
+}
+
+export interface CodecInfo {
+  id: OutputCodec
+  label: string
+  encoder: string
+  extension: string
+  mimeType: string
+  // Empty for lossless codecs, which have no bitrate setting
+  bitrates: number[]
+  sampleRates: number[]
+  rateControls: RateControl[]
+  // Output channel count the codec is limited to; null when the settings decide
+  channels: number | null
+  // Whether the container can carry an attached cover picture
+  supportsCoverArt: boolean
+}
+
+const commonSampleRates = [48000, 44100, 32000, 22050, 16000, 11025]
+
+export const codecs: CodecInfo[] = [
+  {
+    id: 'mp3',
+    label: 'MP3',
+    encoder: 'libmp3lame',
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    bitrates: [320, 256, 192, 160, 128, 112, 96, 80, 64, 48, 32],
+    sampleRates: commonSampleRates,
+    rateControls: ['cbr', 'vbr', 'abr'],
+    channels: null,
+    supportsCoverArt: true,
+  },
+  {
+    id: 'opus',
+    label: 'Opus',
+    encoder: 'libopus',
+    extension: 'opus',
+    mimeType: 'audio/ogg',
+    bitrates: [256, 192, 160, 128, 96, 80, 64, 48, 32, 24, 16, 12],
+    // libopus always encodes at 48 kHz internally
+    sampleRates: [48000],
+    rateControls: ['cbr', 'vbr', 'abr'],
+    // Stereo libopus encodes hit an out-of-bounds memory access in @ffmpeg/core 0.12.6
+    channels: 1,
+    supportsCoverArt: false,
+  },
+  {
+    id: 'aac',
+    label: 'AAC',
+    encoder: 'aac',
+    extension: 'm4a',
+    mimeType: 'audio/mp4',
+    bitrates: [320, 256, 192, 160, 128, 96, 64, 48, 32],
+    sampleRates: commonSampleRates.filter(rate => rate !== 11025),
+    rateControls: ['cbr'],
+    channels: null,
+    supportsCoverArt: true,
+  },
+  {
+    id: 'vorbis',
+    label: 'OGG Vorbis',
+    encoder: 'libvorbis',
+    extension: 'ogg',
+    mimeType: 'audio/ogg',
+    bitrates: [320, 256, 192, 160, 128, 112, 96, 80, 64, 48],
+    sampleRates: commonSampleRates,
+    rateControls: ['abr'],
+    channels: null,
+    supportsCoverArt: false,
+  },
+  {
+    id: 'flac',
+    label: 'FLAC',
+    encoder: 'flac',
+    extension: 'flac',
+    mimeType: 'audio/flac',
+    bitrates: [],
+    sampleRates: commonSampleRates,
+    rateControls: [],
+    channels: null,
+    supportsCoverArt: true,
+  },
+]
+
+export function getCodec(id: OutputCodec): CodecInfo {
+  return codecs.find(c => c.id === id)!
+}
+
+export function nearestValue(options: number[], value: number): number {
+  return options.reduce((best, option) => (Math.abs(option - value) < Math.abs(best - value) ? option : best))
+}
@@ -0,0 +1,217 @@
+import { FFmpeg, FFFSType } from '@ffmpeg/ffmpeg'
+import { fetchFile } from '@ffmpeg/util'
+
+// Same version as the bundled cores, so the same integrity hashes apply
+const CDN_BASE_URLS = {
+  st: 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm',
+  mt: 'https://unpkg.com/@ffmpeg/core-mt@0.12.6/dist/esm',
+}
+const CDN_FALLBACK = import.meta.env.VITE_FFMPEG_CDN_FALLBACK !== 'false'
+const MAX_POOL_SIZE = 4
+// libmp3lame and friends gain little past a few threads
+const MAX_THREADS = 4
+// Memory budget per instance in GB; the wasm heap grows with the input file
+const MEMORY_PER_INSTANCE = 1
+// Where streamed inputs are mounted in the virtual FS
+const MOUNT_POINT = '/mnt'
+
+export interface PoolWorker {
+  ffmpeg: FFmpeg
+  // Job currently running on this instance
+  jobId: string | null
+  // Collects log lines while a command that needs its output is running
+  log: string[] | null
+  // Set when the running job was stopped by the user
+  cancelled: boolean
+  // Resolves once the core is loaded, again after every restart
+  ready: Promise<void>
+}
+
+interface CoreURLs {
+  coreURL: string
+  wasmURL: string
+  workerURL?: string
+}
+
+let coreURLs: Promise<CoreURLs> | null = null
+
+/**
+ * Fetch a file, possibly split into parts, check it against its SRI hash and
+ * return a blob URL for it.
+ */
+async function fetchVerified(urls: string[], expected: string, type: string): Promise<string> {
+  const parts = await Promise.all(urls.map(async (url) => {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`${url}: HTTP ${response.status}`)
+    }
+    return response.arrayBuffer()
+  }))
+  const blob = new Blob(parts, { type })
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()))
+  if (`sha256-${btoa(String.fromCharCode(...digest))}` !== expected) {
+    throw new Error(`Integrity check failed for ${urls[0]}`)
+  }
+  return URL.createObjectURL(blob)
+}
+
+async function fetchCore(files: FFmpegCoreFiles, jsURL: string, wasmURLs: string[], workerURL: string): Promise<CoreURLs> {
+  const [coreURL, wasmURL, worker] = await Promise.all([
+    fetchVerified([jsURL], files.js.integrity, 'text/javascript'),
+    fetchVerified(wasmURLs, files.wasm.integrity, 'application/wasm'),
+    files.worker ? fetchVerified([workerURL], files.worker.integrity, 'text/javascript') : undefined,
+  ])
+  return { coreURL, wasmURL, workerURL: worker }
+}
+
+/**
+ * The multithreaded core needs SharedArrayBuffer, which browsers only
+ * provide to cross-origin isolated pages (COOP/COEP headers).
+ */
+export function isMultithreaded(): boolean {
+  return typeof crossOriginIsolated !== 'undefined' && crossOriginIsolated
+}
+
+// Load the bundled core, falling back to the CDN copy if allowed
+async function downloadCore(): Promise<CoreURLs> {
+  const id = isMultithreaded() ? 'mt' : 'st'
+  const files = __FFMPEG_CORE__[id]
+  const base = import.meta.env.BASE_URL
+  try {
+    return await fetchCore(
+      files,
+      base + files.js.path,
+      files.wasm.paths.map(path => base + path),
+      files.worker ? base + files.worker.path : '',
+    )
+  } catch (err) {
+    if (!CDN_FALLBACK) throw err
+    console.warn('Bundled FFmpeg core unavailable, using CDN:', err)
+    const cdn = CDN_BASE_URLS[id]
+    return fetchCore(files, `${cdn}/ffmpeg-core.js`, [`${cdn}/ffmpeg-core.wasm`], `${cdn}/ffmpeg-core.worker.js`)
+  }
+}
+
+// Download the core once; every instance loads from the same blob URLs
+function getCoreURLs(): Promise<CoreURLs> {
+  if (!coreURLs) {
+    coreURLs = downloadCore()
+    coreURLs.catch(() => {
+      coreURLs = null
+    })
+  }
+  return coreURLs
+}
+
+async function loadCore(ffmpeg: FFmpeg): Promise<void> {
+  await ffmpeg.load(await getCoreURLs())
+}
+
+/**
+ * How many instances may encode in parallel: one core is left for the page,
+ * and `deviceMemory` (Chromium only) caps it further.
+ */
+export function getMaxPoolSize(): number {
+  const cores = navigator.hardwareConcurrency || 2
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1, Math.floor(memory / 2 / MEMORY_PER_INSTANCE)))
+}
+
+// Encoder threads per instance, sharing the CPU between the instances running in parallel
+export function getThreadCount(poolSize: number): number {
+  if (!isMultithreaded()) return 1
+  const cores = navigator.hardwareConcurrency || 2
+  return Math.max(1, Math.min(MAX_THREADS, Math.floor(cores / poolSize)))
+}
+
+export function createWorker(onProgress: (worker: PoolWorker, progress: number, time: number) => void): PoolWorker {
+  const ffmpeg = new FFmpeg()
+  const worker: PoolWorker = { ffmpeg, jobId: null, log: null, cancelled: false, ready: Promise.resolve() }
+
+  ffmpeg.on('progress', ({ progress, time }) => onProgress(worker, progress, time))
+  ffmpeg.on('log', ({ message }) => {
+    worker.log?.push(message)
+  })
+
+  worker.ready = loadCore(ffmpeg)
+  return worker
+}
+
+// Run a command and return its log output
+export async function execLogged(worker: PoolWorker, args: string[]): Promise<string> {
+  worker.log = []
+  try {
+    const exitCode = await worker.ffmpeg.exec(args)
+    if (exitCode !== 0) {
+      throw new Error(`ffmpeg exited with code ${exitCode}`)
+    }
+    return worker.log.join('\n')
+  } finally {
+    worker.log = null
+  }
+}
+
+/**
+ * Abort the running command by terminating the instance's web worker, then
+ * load a fresh core. The old virtual FS goes away with the worker.
+ */
+export function restartWorker(worker: PoolWorker): Promise<void> {
+  worker.cancelled = true
+  worker.ffmpeg.terminate()
+  worker.ready = loadCore(worker.ffmpeg)
+  return worker.ready
+}
+
+export interface InputFile {
+  name: string
+  file: File
+  streamed: boolean
+}
+
+/**
+ * Make the inputs readable by ffmpeg and return their paths. Streamed inputs
+ * are mounted with WORKERFS, which reads slices of the File on demand instead
+ * of copying the whole file into the wasm heap; they share one mount.
+ */
+export async function writeInputs(worker: PoolWorker, inputs: InputFile[]): Promise<string[]> {
+  const mounted = inputs.filter(input => input.streamed)
+  if (mounted.length > 0) {
+    await worker.ffmpeg.createDir(MOUNT_POINT)
+    await worker.ffmpeg.mount(FFFSType.WORKERFS, { blobs: mounted.map(({ name, file }) => ({ name, data: file })) }, MOUNT_POINT)
+  }
+  for (const { name, file, streamed } of inputs) {
+    if (!streamed) {
+      await worker.ffmpeg.writeFile(name, await fetchFile(file))
+    }
+  }
+  return inputs.map(({ name, streamed }) => (streamed ? `${MOUNT_POINT}/${name}` : name))
+}
+
+export async function writeInput(worker: PoolWorker, name: string, file: File, streamed: boolean): Promise<string> {
+  const [path] = await writeInputs(worker, [{ name, file, streamed }])
+  return path
+}
+
+/**
+ * Remove a job's files and unmount its input. A cancelled instance was
+ * restarted with an empty FS, so it is left alone; otherwise only what was
+ * actually written is removed, and failures are logged rather than thrown
+ * so they can't mask the job's own outcome.
+ */
+export async function removeFiles(worker: PoolWorker, names: (string | null)[]): Promise<void> {
+  if (worker.cancelled) return
+  try {
+    const present = new Set((await worker.ffmpeg.listDir('/')).map(node => `/${node.name}`))
+    for (const name of names) {
+      if (name && present.has(`/${name}`)) {
+        await worker.ffmpeg.deleteFile(name)
+      }
+    }
+    if (present.has(MOUNT_POINT)) {
+      await worker.ffmpeg.unmount(MOUNT_POINT)
+      await worker.ffmpeg.deleteDir(MOUNT_POINT)
+    }
+  } catch (err) {
+    console.error('Failed to clean up FFmpeg files:', err)
+  }
+}
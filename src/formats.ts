@@ -0,0 +1,232 @@
+import { parseFrameHeader } from './mpegAudio'
+
+export interface SourceFormat {
+  container: string | null
+  codec: string | null
+  // Read from the stream headers; null when the format isn't parsed
+  sampleRate: number | null
+  channels: number | null
+}
+
+// Inputs ffmpeg.wasm can decode; video containers only contribute their audio track
+export const inputExtensions = ['mp3', 'wav', 'flac', 'aac', 'm4a', 'ogg', 'oga', 'opus', 'mp4', 'webm']
+
+export const inputAccept = [
+  'audio/*',
+  'video/mp4',
+  'video/webm',
+  ...inputExtensions.map(ext => `.${ext}`),
+].join(',')
+
+const HEAD_BYTES = 256 * 1024
+const TAIL_BYTES = 256 * 1024
+
+export function getExtension(name: string): string {
+  const match = /\.([a-z0-9]+)$/i.exec(name)
+  return match ? match[1].toLowerCase() : ''
+}
+
+export function isSupportedInput(file: File): boolean {
+  return file.type.startsWith('audio/') || inputExtensions.includes(getExtension(file.name))
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+function indexOfAscii(bytes: Uint8Array, text: string): number {
+  const first = text.charCodeAt(0)
+  outer: for (let i = bytes.indexOf(first); i !== -1 && i <= bytes.length - text.length; i = bytes.indexOf(first, i + 1)) {
+    for (let j = 1; j < text.length; j++) {
+      if (bytes[i + j] !== text.charCodeAt(j)) continue outer
+    }
+    return i
+  }
+  return -1
+}
+
+// First codec whose marker appears in the data, with the marker's position
+function findMarker(bytes: Uint8Array, markers: [string, string][]): { codec: string; index: number } | null {
+  for (const [marker, codec] of markers) {
+    const index = indexOfAscii(bytes, marker)
+    if (index !== -1) return { codec, index }
+  }
+  return null
+}
+
+function findCodec(bytes: Uint8Array, markers: [string, string][]): string | null {
+  return findMarker(bytes, markers)?.codec ?? null
+}
+
+function wavCodecName(formatTag: number, bitsPerSample: number): string {
+  switch (formatTag) {
+    case 0x0001:
+    case 0xfffe:
+      return `PCM ${bitsPerSample}-bit`
+    case 0x0003:
+      return `PCM ${bitsPerSample}-bit float`
+    case 0x0006:
+      return 'A-law'
+    case 0x0007:
+      return 'μ-law'
+    case 0x0055:
+      return 'MP3'
+    default:
+      return `0x${formatTag.toString(16)}`
+  }
+}
+
+function detectWav(bytes: Uint8Array): SourceFormat {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4)
+    const size = view.getUint32(offset + 4, true)
+    if (id === 'fmt ' && offset + 24 <= bytes.length) {
+      return {
+        container: 'WAV',
+        codec: wavCodecName(view.getUint16(offset + 8, true), view.getUint16(offset + 22, true)),
+        sampleRate: view.getUint32(offset + 12, true),
+        channels: view.getUint16(offset + 10, true),
+      }
+    }
+    offset += 8 + size + (size % 2)
+  }
+  return { container: 'WAV', codec: null, sampleRate: null, channels: null }
+}
+
+// STREAMINFO is always the first metadata block
+function detectFlac(bytes: Uint8Array): SourceFormat {
+  const sampleRate = (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4)
+  return { container: 'FLAC', codec: 'FLAC', sampleRate: sampleRate || null, channels: ((bytes[20] >> 1) & 0x07) + 1 }
+}
+
+function detectOgg(bytes: Uint8Array): SourceFormat {
+  const found = findMarker(bytes, oggCodecMarkers)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (found?.codec === 'Opus' && found.index + 16 <= bytes.length) {
+    // Opus always decodes at 48 kHz, whatever input rate the header records
+    return { container: 'Ogg', codec: 'Opus', sampleRate: 48000, channels: bytes[found.index + 9] }
+  }
+  if (found?.codec === 'Vorbis' && found.index + 16 <= bytes.length) {
+    return { container: 'Ogg', codec: 'Vorbis', sampleRate: view.getUint32(found.index + 12, true), channels: bytes[found.index + 11] }
+  }
+  return { container: 'Ogg', codec: found?.codec ?? null, sampleRate: null, channels: null }
+}
+
+// Audio sample entries (mp4a, Opus, fLaC, ...) share one layout after the four-letter code
+function detectMp4(bytes: Uint8Array, container: string): SourceFormat | null {
+  const found = findMarker(bytes, mp4CodecMarkers)
+  if (!found) return null
+  const entry = found.index + 4
+  if (entry + 26 > bytes.length) {
+    return { container, codec: found.codec, sampleRate: null, channels: null }
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return {
+    container,
+    codec: found.codec,
+    sampleRate: view.getUint16(entry + 24) || null,
+    channels: view.getUint16(entry + 16) || null,
+  }
+}
+
+const adtsSampleRates = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350]
+
+function detectAdts(bytes: Uint8Array): SourceFormat {
+  const channels = ((bytes[2] & 0x01) << 2) | (bytes[3] >> 6)
+  return { container: 'ADTS', codec: 'AAC', sampleRate: adtsSampleRates[(bytes[2] >> 2) & 0x0f] ?? null, channels: channels || null }
+}
+
+// First MPEG audio frame header at or after `offset`
+function detectMpeg(bytes: Uint8Array, offset: number): SourceFormat | null {
+  for (let i = offset; i + 4 <= bytes.length; i++) {
+    const header = parseFrameHeader(bytes, i)
+    if (!header) continue
+    const codec = `MP${header.layer}`
+    return { container: codec, codec, sampleRate: header.sampleRate, channels: header.channelMode === 'mono' ? 1 : 2 }
+  }
+  return null
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f)
+}
+
+const mp4CodecMarkers: [string, string][] = [
+  ['mp4a', 'AAC'],
+  ['alac', 'ALAC'],
+  ['Opus', 'Opus'],
+  ['fLaC', 'FLAC'],
+  ['.mp3', 'MP3'],
+  ['ac-3', 'AC-3'],
+  ['ec-3', 'E-AC-3'],
+]
+
+const matroskaCodecMarkers: [string, string][] = [
+  ['A_OPUS', 'Opus'],
+  ['A_VORBIS', 'Vorbis'],
+  ['A_AAC', 'AAC'],
+  ['A_MPEG/L3', 'MP3'],
+  ['A_FLAC', 'FLAC'],
+  ['A_PCM', 'PCM'],
+]
+
+const oggCodecMarkers: [string, string][] = [
+  ['OpusHead', 'Opus'],
+  ['\x01vorbis', 'Vorbis'],
+  ['\x7fFLAC', 'FLAC'],
+  ['Speex   ', 'Speex'],
+]
+
+/**
+ * Identify the container, audio codec, sample rate and channel count from the
+ * file's leading bytes (and trailing bytes for MP4, where the track table is
+ * often at the end). Only headers are read, never the whole file.
+ */
+export async function detectSourceFormat(file: File): Promise<SourceFormat> {
+  const head = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer())
+
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WAVE') {
+    return detectWav(head)
+  }
+  if (ascii(head, 0, 4) === 'fLaC') {
+    return detectFlac(head)
+  }
+  if (ascii(head, 0, 4) === 'OggS') {
+    return detectOgg(head)
+  }
+  if (ascii(head, 4, 4) === 'ftyp') {
+    const brand = ascii(head, 8, 4)
+    const container = brand === 'M4A ' ? 'M4A' : brand === 'qt  ' ? 'QuickTime' : 'MP4'
+    let format = detectMp4(head, container)
+    if (!format && file.size > HEAD_BYTES) {
+      const tail = new Uint8Array(await file.slice(Math.max(HEAD_BYTES, file.size - TAIL_BYTES)).arrayBuffer())
+      format = detectMp4(tail, container)
+    }
+    return format ?? { container, codec: null, sampleRate: null, channels: null }
+  }
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) {
+    const container = indexOfAscii(head.subarray(0, 64), 'webm') !== -1 ? 'WebM' : 'Matroska'
+    return { container, codec: findCodec(head, matroskaCodecMarkers), sampleRate: null, channels: null }
+  }
+  if (ascii(head, 0, 3) === 'ID3') {
+    // Audio starts after the tag, which can outgrow the head when it holds cover art
+    const tagEnd = 10 + syncsafe(head, 6)
+    const frames = tagEnd + 4 <= head.length
+      ? head
+      : new Uint8Array(await file.slice(tagEnd, tagEnd + HEAD_BYTES).arrayBuffer())
+    const mpeg = detectMpeg(frames, frames === head ? tagEnd : 0)
+    return { container: 'MP3', codec: 'MP3', sampleRate: mpeg?.sampleRate ?? null, channels: mpeg?.channels ?? null }
+  }
+  if (head[0] === 0xff && (head[1] & 0xf6) === 0xf0) {
+    return detectAdts(head)
+  }
+  if (head[0] === 0xff && (head[1] & 0xe0) === 0xe0) {
+    const mpeg = detectMpeg(head, 0)
+    if (mpeg) return mpeg
+  }
+
+  const ext = getExtension(file.name)
+  return { container: ext ? ext.toUpperCase() : null, codec: null, sampleRate: null, channels: null }
+}
@@ -24,7 +24,7 @@ export const translations: Record<Language, Translations> = {
 
     // Upload
     selectFile: 'Select File',
-    dragDropHint: 'or drag and drop MP3 file here',
+    dragDropHint: 'or drag and drop audio or video files here',
     selectedFile: 'Selected:',
     pleaseSelectAudio: 'Please select an audio file',
 
@@ -38,6 +38,17 @@ export const translations: Record<Language, Translations> = {
     channels: 'Channels',
     stereo: 'Stereo',
     mono: 'Mono',
+    container: 'Format',
+    codec: 'Codec',
+    mpegStream: 'Stream',
+    rateMode: 'Rate Mode',
+    channelMode: 'Channel Mode',
+    jointStereo: 'Joint Stereo',
+    dualChannel: 'Dual Channel',
+    encoder: 'Encoder',
+    encoderDelayPadding: 'Delay / Padding',
+    frameCount: 'Frames',
+    estimatedHint: '≈ Estimated: the file headers don\'t state this value, so it was derived from the file size or the decoder.',
 
     // Presets
     selectPreset: 'Select Compression Preset',
@@ -53,10 +64,41 @@ export const translations: Record<Language, Translations> = {
     presetCompactDesc: '96kbps / 32kHz / Stereo',
     presetVoice: 'Voice',
     presetVoiceDesc: '64kbps / 22.05kHz / Mono',
+    presetVoiceOpus: 'Voice (Opus)',
+    presetVoiceOpusDesc: '24kbps Opus / 48kHz / Mono',
     presetMinimal: 'Minimal',
     presetMinimalDesc: '32kbps / 16kHz / Mono',
+    presetTarget: 'Target Size',
+    presetTargetDesc: 'Fit under a file size limit',
     presetCustom: 'Custom',
     presetCustomDesc: 'Choose parameters freely',
+    recommended: 'Recommended',
+    presetUpscales: 'Larger than source',
+    presetUpscalesHint: 'This exceeds the bitrate of the lossy source. The file gets larger without sounding any better.',
+    sourceAnalysis: 'Source:',
+    sourceLossless: 'lossless',
+    effectivelyMono: 'Mono in stereo (L = R)',
+    contentSpeech: 'Speech',
+    contentMusic: 'Music',
+    contentUpTo: 'Content up to {freq} kHz',
+    recommendedPreset: 'Recommended preset:',
+    useRecommended: 'Use recommended',
+    editPreset: 'Edit',
+    deletePreset: 'Delete',
+    presetOrderHint: 'Drag presets to reorder them.',
+    exportPresets: 'Export presets',
+    importPresets: 'Import presets',
+    presetNamePlaceholder: 'Preset name',
+    savePreset: 'Save as preset',
+    updatePreset: 'Update preset',
+    saveAsNewPreset: 'Save as new',
+    presetImportFailed: 'Cannot import presets:',
+    presetEntry: 'Preset #{index}:',
+    presetIssueJson: 'the file is not valid JSON',
+    presetIssueFormat: 'the file is not a preset export',
+    presetIssueVersion: 'the file was exported by an unsupported version',
+    presetIssueNotObject: 'not a preset object',
+    presetIssueField: '"{field}" is missing or invalid',
 
     // Custom Options
     customParams: 'Custom Parameters',
@@ -91,10 +133,197 @@ export const translations: Record<Language, Translations> = {
     download: 'Download Compressed File',
 
     // Errors
-    cannotReadFile: 'Cannot read file',
     cannotParseAudio: 'Cannot parse audio file',
+    fileTooLarge: 'File is larger than the {limit} limit and cannot be processed in the browser',
+    largeFileWarning: 'Large file: it is read straight from disk and described from its headers instead of being decoded in memory. Waveform trimming and quality analysis are unavailable. Files up to {limit} are supported.',
+    outputTooLarge: 'The output may exceed the {limit} that fits in memory. Choose a lower bitrate or a lossy format.',
     parseFileError: 'Cannot parse file info:',
     compressionFailed: 'Compression failed:',
+
+    // Queue
+    queue: 'Queue',
+    clearAll: 'Clear All',
+    removeJob: 'Remove',
+    statusPending: 'Waiting',
+    statusProcessing: 'Compressing',
+    statusDone: 'Done',
+    statusFailed: 'Failed',
+    statusSkipped: 'Skipped (already optimal)',
+    fileProgress: 'File {current} of {total}',
+    startCompressCount: 'Compress {count} Files',
+
+    // Download All
+    downloadAll: 'Download All ({count}) as ZIP',
+    creatingZip: 'Creating ZIP...',
+    zipFailed: 'Failed to create ZIP:',
+    zipTooLarge: 'Too large for one ZIP (over 4 GB or 65,535 files), so the files are downloaded one by one.',
+
+    // Target Size
+    targetSizeParams: 'Target File Size',
+    targetSize: 'Target size',
+    sizeUnit: 'Unit',
+    targetSizeHint: 'The highest bitrate and sample rate that fit are chosen automatically. If the output is still too large, it is re-encoded one step lower.',
+    willUse: 'Will use:',
+    usedParams: 'Parameters used:',
+    retryingLower: 'Too large, retrying at {settings}...',
+    targetMissed: 'Even the lowest setting could not reach the target size.',
+
+    // Rate Control
+    rateCbr: 'CBR',
+    rateCbrDesc: 'Constant bitrate: predictable size, same bitrate for every frame',
+    rateVbr: 'VBR',
+    rateVbrDesc: 'Variable bitrate: LAME quality levels V0 (best) to V9 (smallest)',
+    rateAbr: 'ABR',
+    rateAbrDesc: 'Average bitrate: varies per frame but averages to the chosen bitrate',
+    vbrQuality: 'VBR Quality',
+    averageBitrate: 'Average Bitrate',
+
+    // Output Format
+    outputFormat: 'Format',
+    rateControl: 'Bitrate Mode',
+
+    // Tags
+    tags: 'Tags',
+    tagTitle: 'Title',
+    tagArtist: 'Artist',
+    tagAlbum: 'Album',
+    tagTrack: 'Track',
+    tagYear: 'Year',
+    tagGenre: 'Genre',
+    coverArt: 'Cover art',
+    noCover: 'No cover',
+    replaceCover: 'Replace cover',
+    removeCover: 'Remove cover',
+    stripTags: 'Strip all tags',
+    coverNotSupported: '{format} output cannot embed cover art; the cover will be dropped.',
+
+    // Loudness
+    processingOptions: 'Processing',
+    stereoHandling: 'Stereo and Mono',
+    channelsIdentical: 'Left and right are identical.',
+    channelsNearlyIdentical: 'Left and right are nearly identical (difference {level} dB below the signal).',
+    channelSilent: 'The {channel} channel is silent.',
+    channelLeft: 'left',
+    channelRight: 'right',
+    monoSavings: 'Mono sounds the same and needs about half the bitrate: about {to} instead of {from}.',
+    monoSavingsVbr: 'Mono sounds the same, and VBR output shrinks because only one channel is coded.',
+    useMono: 'Downmix to mono',
+    downmixMethod: 'Downmix method',
+    downmixAverage: 'Average of both',
+    downmixLeft: 'Left only',
+    downmixRight: 'Right only',
+    stereoMode: 'Stereo coding',
+    stereoModeAuto: 'Encoder default',
+    stereoModeJoint: 'Joint stereo (mid/side)',
+    stereoModeStereo: 'Independent left/right',
+    autoMono: 'Encode in mono when channels are identical or one is silent',
+    stereoHint: 'The downmix method applies whenever the output is mono. Average keeps identical channels at their level, but halves a file with one silent channel; Left or Right only avoid that 6 dB drop. Automatic mono always keeps the channel that has audio. Stereo coding applies to MP3 and AAC.',
+    cleanupFilters: 'Cleanup Filters',
+    filterHighpass: 'Rumble high-pass',
+    filterDenoise: 'Noise reduction (afftdn)',
+    filterCompressor: 'Compressor',
+    filterDeesser: 'De-esser',
+    filterFrequencyHz: 'Cutoff (Hz)',
+    filterReduction: 'Reduction (dB)',
+    filterNoiseFloor: 'Noise floor (dB)',
+    filterThreshold: 'Threshold (dB)',
+    filterRatio: 'Ratio',
+    filterAttack: 'Attack (ms)',
+    filterRelease: 'Release (ms)',
+    filterMakeup: 'Makeup gain (dB)',
+    filterIntensity: 'Intensity (0-1)',
+    filterSplit: 'Detection frequency (0-1)',
+    filterMoveUp: 'Move up',
+    filterMoveDown: 'Move down',
+    cleanupHint: 'Enabled filters run top to bottom in one FFmpeg filter chain. Voice presets turn them all on; the chain is saved with your own presets.',
+    loudnessNormalization: 'Loudness normalization (EBU R128)',
+    loudnessPlatform: 'Platform',
+    loudnessPodcast: 'Podcast (-16 LUFS)',
+    loudnessStreaming: 'Music streaming (-14 LUFS)',
+    loudnessBroadcast: 'Broadcast (-23 LUFS)',
+    targetLoudness: 'Target (LUFS)',
+    truePeakCeiling: 'True peak (dBTP)',
+    cancel: 'Cancel',
+    parallelJobs: 'Parallel',
+    queueOrderHint: 'Drag files to change their order.',
+    joinMode: 'Join',
+    joinGap: 'Gap',
+    joinCrossfade: 'Crossfade',
+    joinSeconds: 'Seconds',
+    mergeFiles: 'Merge into One File',
+    mergingFiles: 'Merging {count} files...',
+    mergeFailed: 'Merge failed:',
+    mergedFile: 'Merged file:',
+    mergeOversized: 'The merged file is not at least {percent}% smaller than its inputs together.',
+    downloadMerged: 'Download Merged File',
+    analyzeQuality: 'Analyze quality',
+    analyzingQuality: 'Analyzing...',
+    qualityAnalysisFailed: 'Quality analysis failed:',
+    snr: 'SNR',
+    spectralDifference: 'Spectral difference',
+    frequencyCutoff: 'Frequency cutoff',
+    qualityNotComparable: 'The output timeline differs from the source (silence removed), so sample-level metrics are skipped.',
+    qualityHint: 'Higher SNR and lower spectral difference mean the output is closer to the original. The dashed line marks where high frequencies stop.',
+    abCompare: 'Compare',
+    abHotkeys: 'Keys (click the player first): A / B / X select, T toggles, Space plays',
+    abSilenceRemoved: 'Silence was removed from the compressed file, so A and B drift apart after the first cut gap and the blind test is unavailable.',
+    abLevelMatched: 'Loudness normalization changed the level by {gain} dB, so the louder one is turned down to play A and B at the same level.',
+    abOriginal: 'Original',
+    abCompressed: 'Compressed',
+    play: 'Play',
+    pause: 'Pause',
+    abxStart: 'Start blind ABX test',
+    abxStop: 'End ABX test',
+    abxQuestion: 'Listen to A, B and X, then choose which one X is.',
+    abxIsA: 'X is A',
+    abxIsB: 'X is B',
+    abxScore: '{correct} of {total} correct',
+    abxGuessChance: '{chance}% chance of scoring this by guessing',
+    removeSilence: 'Remove silence',
+    detectSilence: 'Detect',
+    detectingSilence: 'Detecting silence...',
+    silenceDetectFailed: 'Silence detection failed:',
+    silenceThreshold: 'Threshold (dB)',
+    silenceMinDuration: 'Minimum silence (s)',
+    noSilenceFound: 'No silence found with these settings.',
+    silenceSummary: '{count} silent regions, {duration} will be removed',
+    silenceHint: 'Gaps quieter than the threshold and longer than the minimum are cut out. Press Detect to review them before compressing.',
+    sizePolicy: 'Never Larger',
+    sizePolicyAction: 'If the output is not smaller',
+    sizePolicyOff: 'Keep the output anyway',
+    sizePolicyKeep: 'Keep the original',
+    sizePolicyRetry: 'Retry one step lower, then keep the original',
+    minSavings: 'Minimum savings (%)',
+    sizePolicyHint: 'Files that are already well compressed can grow when re-encoded. Skipped files are downloaded unchanged. Trimmed or edited files are never replaced by the original.',
+    splitParts: 'Split into Parts',
+    splitMode: 'Split by',
+    splitOff: 'Don\'t split',
+    splitDuration: 'Fixed duration',
+    splitSize: 'Size per part',
+    splitMinutes: 'Minutes per part',
+    splitSizeMB: 'MB per part',
+    splitWindow: 'Search window (s)',
+    splitAtSilence: 'Cut at a silence shortly before each cut point',
+    splitHint: 'Long recordings are cut after encoding into files named _part01, _part02, … with track numbers set. Parts are copied from the output without re-encoding; sizes per part are approximate.',
+    splittingPart: 'Writing part {index} of {count}...',
+    splitResult: 'Split into {count} parts:',
+    downloadParts: 'Download {count} Parts (ZIP)',
+    keptOriginal: 'The output was not at least {percent}% smaller, so the original file is kept unchanged.',
+    keptOversized: 'The output is not at least {percent}% smaller, but it is kept because the original doesn\'t have this file\'s trim or edits.',
+    downloadOriginal: 'Download Original File',
+    trim: 'Trim',
+    trimStart: 'Start',
+    trimEnd: 'End',
+    trimLength: 'Length',
+    trimReset: 'Reset',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    trimHint: 'Drag the handles to keep only part of the file. Size estimates use the trimmed length.',
+    loudnessHint: 'Two passes: the first measures the audio, the second applies a linear gain correction to reach the target.',
+    measuringLoudness: 'Measuring loudness...',
+    loudnessMeasureFailed: 'Could not measure loudness',
+    loudness: 'Loudness',
+    truePeak: 'True peak',
   },
   'zh-TW': {
     title: 'MP3 壓縮工具',
@@ -102,7 +331,7 @@ export const translations: Record<Language, Translations> = {
     loadingEngine: '正在載入音訊處理引擎...',
     loadEngineFailed: '載入音訊處理引擎失敗，請重新整理頁面',
     selectFile: '選擇檔案',
-    dragDropHint: '或拖曳 MP3 檔案到此處',
+    dragDropHint: '或拖曳音訊或影片檔案到此處',
     selectedFile: '已選擇:',
     pleaseSelectAudio: '請選擇音訊檔案',
     fileInfo: '檔案資訊',
@@ -114,6 +343,17 @@ export const translations: Record<Language, Translations> = {
     channels: '聲道',
     stereo: '立體聲',
     mono: '單聲道',
+    container: '格式',
+    codec: '編碼',
+    mpegStream: '串流',
+    rateMode: '位元率模式',
+    channelMode: '聲道模式',
+    jointStereo: '聯合立體聲',
+    dualChannel: '雙聲道',
+    encoder: '編碼器',
+    encoderDelayPadding: '延遲 / 填補',
+    frameCount: '影格數',
+    estimatedHint: '≈ 估計值：檔頭未記錄此數值，因此由檔案大小或解碼器推算。',
     selectPreset: '選擇壓縮預設',
     presetLossless: '近無損',
     presetLosslessDesc: '320kbps / 原始取樣率 / 立體聲',
@@ -127,10 +367,41 @@ export const translations: Record<Language, Translations> = {
     presetCompactDesc: '96kbps / 32kHz / 立體聲',
     presetVoice: '語音模式',
     presetVoiceDesc: '64kbps / 22.05kHz / 單聲道',
+    presetVoiceOpus: '語音 (Opus)',
+    presetVoiceOpusDesc: '24kbps Opus / 48kHz / 單聲道',
     presetMinimal: '極限壓縮',
     presetMinimalDesc: '32kbps / 16kHz / 單聲道',
+    presetTarget: '目標大小',
+    presetTargetDesc: '壓縮至指定大小以內',
     presetCustom: '自訂',
     presetCustomDesc: '自由選擇參數',
+    recommended: '推薦',
+    presetUpscales: '大於原始檔',
+    presetUpscalesHint: '此設定超過有損原始檔的位元率，檔案會變大但音質不會更好。',
+    sourceAnalysis: '原始檔:',
+    sourceLossless: '無損',
+    effectivelyMono: '立體聲中的單聲道 (L = R)',
+    contentSpeech: '語音',
+    contentMusic: '音樂',
+    contentUpTo: '內容最高 {freq} kHz',
+    recommendedPreset: '推薦預設:',
+    useRecommended: '使用推薦',
+    editPreset: '編輯',
+    deletePreset: '刪除',
+    presetOrderHint: '拖曳預設以調整順序。',
+    exportPresets: '匯出預設',
+    importPresets: '匯入預設',
+    presetNamePlaceholder: '預設名稱',
+    savePreset: '儲存為預設',
+    updatePreset: '更新預設',
+    saveAsNewPreset: '另存新預設',
+    presetImportFailed: '無法匯入預設:',
+    presetEntry: '預設 #{index}:',
+    presetIssueJson: '檔案不是有效的 JSON',
+    presetIssueFormat: '檔案不是預設匯出檔',
+    presetIssueVersion: '檔案由不支援的版本匯出',
+    presetIssueNotObject: '不是預設物件',
+    presetIssueField: '「{field}」缺少或無效',
     customParams: '自訂參數',
     sr48000: '48000 Hz (專業)',
     sr44100: '44100 Hz (CD標準)',
@@ -151,10 +422,183 @@ export const translations: Record<Language, Translations> = {
     increased: '增加',
     recompress: '重新壓縮',
     download: '下載壓縮檔案',
-    cannotReadFile: '無法讀取檔案',
     cannotParseAudio: '無法解析音訊檔案',
+    fileTooLarge: '檔案超過 {limit} 上限，無法在瀏覽器中處理',
+    largeFileWarning: '大型檔案：將直接從磁碟讀取，並以檔頭資訊取代在記憶體中完整解碼。波形裁剪與品質分析無法使用。支援最大 {limit} 的檔案。',
+    outputTooLarge: '輸出可能超過記憶體可容納的 {limit}。請選擇較低位元率或有損格式。',
     parseFileError: '無法解析檔案資訊:',
     compressionFailed: '壓縮失敗:',
+    queue: '佇列',
+    clearAll: '全部清除',
+    removeJob: '移除',
+    statusPending: '等待中',
+    statusProcessing: '壓縮中',
+    statusDone: '完成',
+    statusFailed: '失敗',
+    statusSkipped: '已略過（已是最佳）',
+    fileProgress: '第 {current} / {total} 個檔案',
+    startCompressCount: '壓縮 {count} 個檔案',
+    downloadAll: '全部下載 ({count}) 為 ZIP',
+    creatingZip: '正在建立 ZIP...',
+    zipFailed: '建立 ZIP 失敗:',
+    zipTooLarge: '超過單一 ZIP 的上限（4 GB 或 65,535 個檔案），改為逐一下載檔案。',
+    targetSizeParams: '目標檔案大小',
+    targetSize: '目標大小',
+    sizeUnit: '單位',
+    targetSizeHint: '將自動選擇符合大小的最高位元率與取樣率。若輸出仍超過目標，會自動降一級重新編碼。',
+    willUse: '將使用:',
+    usedParams: '使用參數:',
+    retryingLower: '檔案過大，以 {settings} 重試...',
+    targetMissed: '即使使用最低設定也無法達到目標大小。',
+    rateCbr: 'CBR',
+    rateCbrDesc: '固定位元率：大小可預測，每個影格位元率相同',
+    rateVbr: 'VBR',
+    rateVbrDesc: '可變位元率：LAME 品質等級 V0（最佳）至 V9（最小）',
+    rateAbr: 'ABR',
+    rateAbrDesc: '平均位元率：每個影格不同，但平均為所選位元率',
+    vbrQuality: 'VBR 品質',
+    averageBitrate: '平均位元率',
+    outputFormat: '輸出格式',
+    rateControl: '位元率模式',
+    tags: '標籤',
+    tagTitle: '標題',
+    tagArtist: '演出者',
+    tagAlbum: '專輯',
+    tagTrack: '曲目編號',
+    tagYear: '年份',
+    tagGenre: '類型',
+    coverArt: '封面',
+    noCover: '無封面',
+    replaceCover: '更換封面',
+    removeCover: '移除封面',
+    stripTags: '移除所有標籤',
+    coverNotSupported: '{format} 輸出無法嵌入封面，封面將被捨棄。',
+    processingOptions: '處理選項',
+    stereoHandling: '立體聲與單聲道',
+    channelsIdentical: '左右聲道完全相同。',
+    channelsNearlyIdentical: '左右聲道幾乎相同（差異低於訊號 {level} dB）。',
+    channelSilent: '{channel}聲道沒有聲音。',
+    channelLeft: '左',
+    channelRight: '右',
+    monoSavings: '單聲道聽起來一樣，只需約一半位元率：約 {to}，而非 {from}。',
+    monoSavingsVbr: '單聲道聽起來一樣，且 VBR 只需編碼一個聲道，檔案會變小。',
+    useMono: '混音為單聲道',
+    downmixMethod: '混音方式',
+    downmixAverage: '兩聲道平均',
+    downmixLeft: '僅左聲道',
+    downmixRight: '僅右聲道',
+    stereoMode: '立體聲編碼',
+    stereoModeAuto: '編碼器預設',
+    stereoModeJoint: '聯合立體聲 (中/側)',
+    stereoModeStereo: '左右獨立',
+    autoMono: '聲道相同或其中一個無聲時以單聲道編碼',
+    stereoHint: '輸出為單聲道時套用混音方式。平均可讓相同的聲道保持原音量，但若有一個聲道無聲，音量會減半；僅左或僅右聲道可避免這 6 dB 的下降。自動單聲道一律保留有聲音的聲道。立體聲編碼適用於 MP3 與 AAC。',
+    cleanupFilters: '清理濾鏡',
+    filterHighpass: '低頻隆隆聲高通',
+    filterDenoise: '降噪 (afftdn)',
+    filterCompressor: '壓縮器',
+    filterDeesser: '齒音消除',
+    filterFrequencyHz: '截止頻率 (Hz)',
+    filterReduction: '降噪量 (dB)',
+    filterNoiseFloor: '噪音底限 (dB)',
+    filterThreshold: '閾值 (dB)',
+    filterRatio: '壓縮比',
+    filterAttack: '起始時間 (ms)',
+    filterRelease: '釋放時間 (ms)',
+    filterMakeup: '補償增益 (dB)',
+    filterIntensity: '強度 (0-1)',
+    filterSplit: '偵測頻率 (0-1)',
+    filterMoveUp: '上移',
+    filterMoveDown: '下移',
+    cleanupHint: '啟用的濾鏡會依由上而下的順序組成一條 FFmpeg 濾鏡鏈。語音預設會全部開啟，濾鏡鏈也會隨自訂預設一併儲存。',
+    loudnessNormalization: '響度標準化 (EBU R128)',
+    loudnessPlatform: '平台',
+    loudnessPodcast: 'Podcast (-16 LUFS)',
+    loudnessStreaming: '音樂串流 (-14 LUFS)',
+    loudnessBroadcast: '廣播 (-23 LUFS)',
+    targetLoudness: '目標響度 (LUFS)',
+    truePeakCeiling: '真峰值上限 (dBTP)',
+    cancel: '取消',
+    parallelJobs: '同時處理',
+    queueOrderHint: '拖曳檔案可調整順序。',
+    joinMode: '銜接',
+    joinGap: '間隔',
+    joinCrossfade: '交叉淡化',
+    joinSeconds: '秒數',
+    mergeFiles: '合併成一個檔案',
+    mergingFiles: '正在合併 {count} 個檔案...',
+    mergeFailed: '合併失敗:',
+    mergedFile: '合併檔案:',
+    mergeOversized: '合併檔案未比所有輸入合計縮小至少 {percent}%。',
+    downloadMerged: '下載合併檔案',
+    analyzeQuality: '分析品質',
+    analyzingQuality: '分析中...',
+    qualityAnalysisFailed: '品質分析失敗：',
+    snr: '訊噪比',
+    spectralDifference: '頻譜差異',
+    frequencyCutoff: '頻率截止',
+    qualityNotComparable: '輸出的時間軸與來源不同（已移除靜音），因此略過取樣層級的指標。',
+    qualityHint: '訊噪比越高、頻譜差異越低，表示輸出越接近原始檔。虛線標示高頻截止的位置。',
+    abCompare: '比較試聽',
+    abHotkeys: '快捷鍵（請先點選播放器）：A / B / X 選擇，T 切換，空白鍵播放',
+    abSilenceRemoved: '壓縮檔已移除靜音，A 與 B 會在第一個剪掉的空白後錯開，因此無法進行盲測。',
+    abLevelMatched: '響度正規化使音量改變了 {gain} dB，因此會調低較大聲的一方，讓 A 與 B 以相同音量播放。',
+    abOriginal: '原始',
+    abCompressed: '壓縮後',
+    play: '播放',
+    pause: '暫停',
+    abxStart: '開始 ABX 盲測',
+    abxStop: '結束 ABX 測試',
+    abxQuestion: '聆聽 A、B 和 X，然後選出 X 是哪一個。',
+    abxIsA: 'X 是 A',
+    abxIsB: 'X 是 B',
+    abxScore: '{total} 次中答對 {correct} 次',
+    abxGuessChance: '靠猜測得到此成績的機率為 {chance}%',
+    removeSilence: '移除靜音',
+    detectSilence: '偵測',
+    detectingSilence: '正在偵測靜音...',
+    silenceDetectFailed: '靜音偵測失敗：',
+    silenceThreshold: '閾值 (dB)',
+    silenceMinDuration: '最短靜音 (秒)',
+    noSilenceFound: '以目前設定未找到靜音。',
+    silenceSummary: '{count} 段靜音，將移除 {duration}',
+    silenceHint: '低於閾值且長於最短時間的空白會被剪除。按「偵測」可在壓縮前先檢視。',
+    sizePolicy: '不大於原檔',
+    sizePolicyAction: '輸出未變小時',
+    sizePolicyOff: '仍保留輸出',
+    sizePolicyKeep: '保留原檔',
+    sizePolicyRetry: '降一級重試，仍不行則保留原檔',
+    minSavings: '最少節省 (%)',
+    sizePolicyHint: '已充分壓縮的檔案重新編碼後可能變大。略過的檔案會原封不動地下載。經修剪或編輯的檔案不會以原檔取代。',
+    splitParts: '分割成多個檔案',
+    splitMode: '分割方式',
+    splitOff: '不分割',
+    splitDuration: '固定長度',
+    splitSize: '每段大小',
+    splitMinutes: '每段分鐘數',
+    splitSizeMB: '每段 MB',
+    splitWindow: '搜尋範圍 (秒)',
+    splitAtSilence: '在每個切點前不遠處的靜音切開',
+    splitHint: '長錄音會在編碼後切成 _part01、_part02… 等檔案，並設定曲目編號。各段直接從輸出複製，不會重新編碼；每段大小為約略值。',
+    splittingPart: '正在寫入第 {index} / {count} 段...',
+    splitResult: '已分割成 {count} 段:',
+    downloadParts: '下載 {count} 個分段 (ZIP)',
+    keptOriginal: '輸出未縮小至少 {percent}%，因此保留原檔不做變更。',
+    keptOversized: '輸出未縮小至少 {percent}%，但原檔沒有此檔案的修剪或編輯，因此仍保留輸出。',
+    downloadOriginal: '下載原始檔案',
+    trim: '裁剪',
+    trimStart: '開始',
+    trimEnd: '結束',
+    trimLength: '長度',
+    trimReset: '重設',
+    zoomIn: '放大',
+    zoomOut: '縮小',
+    trimHint: '拖曳把手以只保留檔案的一部分。預估大小會以裁剪後的長度計算。',
+    loudnessHint: '分兩次處理：第一次測量音訊，第二次套用線性增益修正以達到目標。',
+    measuringLoudness: '正在測量響度...',
+    loudnessMeasureFailed: '無法測量響度',
+    loudness: '響度',
+    truePeak: '真峰值',
   },
   ja: {
     title: 'MP3 圧縮ツール',
@@ -162,7 +606,7 @@ export const translations: Record<Language, Translations> = {
     loadingEngine: 'オーディオ処理エンジンを読み込み中...',
     loadEngineFailed: 'オーディオ処理エンジンの読み込みに失敗しました。ページを更新してください。',
     selectFile: 'ファイルを選択',
-    dragDropHint: 'またはMP3ファイルをここにドラッグ＆ドロップ',
+    dragDropHint: 'またはオーディオ・動画ファイルをここにドラッグ＆ドロップ',
     selectedFile: '選択済み:',
     pleaseSelectAudio: 'オーディオファイルを選択してください',
     fileInfo: 'ファイル情報',
@@ -174,6 +618,17 @@ export const translations: Record<Language, Translations> = {
     channels: 'チャンネル',
     stereo: 'ステレオ',
     mono: 'モノラル',
+    container: 'フォーマット',
+    codec: 'コーデック',
+    mpegStream: 'ストリーム',
+    rateMode: 'レートモード',
+    channelMode: 'チャンネルモード',
+    jointStereo: 'ジョイントステレオ',
+    dualChannel: 'デュアルチャンネル',
+    encoder: 'エンコーダー',
+    encoderDelayPadding: '遅延 / パディング',
+    frameCount: 'フレーム数',
+    estimatedHint: '≈ 推定値：ファイルヘッダーにこの値がないため、ファイルサイズまたはデコーダーから算出しています。',
     selectPreset: '圧縮プリセットを選択',
     presetLossless: 'ほぼ無損失',
     presetLosslessDesc: '320kbps / 元のサンプルレート / ステレオ',
@@ -187,10 +642,41 @@ export const translations: Record<Language, Translations> = {
     presetCompactDesc: '96kbps / 32kHz / ステレオ',
     presetVoice: '音声モード',
     presetVoiceDesc: '64kbps / 22.05kHz / モノラル',
+    presetVoiceOpus: '音声 (Opus)',
+    presetVoiceOpusDesc: '24kbps Opus / 48kHz / モノラル',
     presetMinimal: '最小圧縮',
     presetMinimalDesc: '32kbps / 16kHz / モノラル',
+    presetTarget: '目標サイズ',
+    presetTargetDesc: '指定サイズ以内に収める',
     presetCustom: 'カスタム',
     presetCustomDesc: 'パラメータを自由に選択',
+    recommended: 'おすすめ',
+    presetUpscales: '元より大きい',
+    presetUpscalesHint: '非可逆の元ファイルのビットレートを超えています。ファイルが大きくなるだけで音質は向上しません。',
+    sourceAnalysis: '元ファイル:',
+    sourceLossless: 'ロスレス',
+    effectivelyMono: 'ステレオ内のモノラル (L = R)',
+    contentSpeech: '音声',
+    contentMusic: '音楽',
+    contentUpTo: '{freq} kHz までの成分',
+    recommendedPreset: 'おすすめプリセット:',
+    useRecommended: 'おすすめを使用',
+    editPreset: '編集',
+    deletePreset: '削除',
+    presetOrderHint: 'プリセットをドラッグして並べ替えできます。',
+    exportPresets: 'プリセットをエクスポート',
+    importPresets: 'プリセットをインポート',
+    presetNamePlaceholder: 'プリセット名',
+    savePreset: 'プリセットとして保存',
+    updatePreset: 'プリセットを更新',
+    saveAsNewPreset: '新規として保存',
+    presetImportFailed: 'プリセットをインポートできません:',
+    presetEntry: 'プリセット #{index}:',
+    presetIssueJson: 'ファイルが有効な JSON ではありません',
+    presetIssueFormat: 'プリセットのエクスポートファイルではありません',
+    presetIssueVersion: '対応していないバージョンでエクスポートされたファイルです',
+    presetIssueNotObject: 'プリセットのオブジェクトではありません',
+    presetIssueField: '「{field}」がないか無効です',
     customParams: 'カスタムパラメータ',
     sr48000: '48000 Hz (プロ)',
     sr44100: '44100 Hz (CD標準)',
@@ -211,10 +697,183 @@ export const translations: Record<Language, Translations> = {
     increased: '増加',
     recompress: '再圧縮',
     download: '圧縮ファイルをダウンロード',
-    cannotReadFile: 'ファイルを読み取れません',
     cannotParseAudio: 'オーディオファイルを解析できません',
+    fileTooLarge: 'ファイルが上限の {limit} を超えているため、ブラウザでは処理できません',
+    largeFileWarning: '大きなファイル：メモリ上でデコードせず、ディスクから直接読み込み、ヘッダーから情報を取得します。波形トリミングと品質分析は使用できません。{limit} までのファイルに対応しています。',
+    outputTooLarge: '出力がメモリに収まる {limit} を超える可能性があります。低いビットレートか非可逆形式を選んでください。',
     parseFileError: 'ファイル情報を解析できません:',
     compressionFailed: '圧縮に失敗しました:',
+    queue: 'キュー',
+    clearAll: 'すべてクリア',
+    removeJob: '削除',
+    statusPending: '待機中',
+    statusProcessing: '圧縮中',
+    statusDone: '完了',
+    statusFailed: '失敗',
+    statusSkipped: 'スキップ（最適化済み）',
+    fileProgress: '{total} 件中 {current} 件目',
+    startCompressCount: '{count} 件のファイルを圧縮',
+    downloadAll: 'すべて ZIP でダウンロード ({count})',
+    creatingZip: 'ZIP を作成中...',
+    zipFailed: 'ZIP の作成に失敗しました:',
+    zipTooLarge: '1 つの ZIP の上限（4 GB または 65,535 ファイル）を超えるため、ファイルを個別にダウンロードします。',
+    targetSizeParams: '目標ファイルサイズ',
+    targetSize: '目標サイズ',
+    sizeUnit: '単位',
+    targetSizeHint: '収まる最も高いビットレートとサンプルレートが自動的に選ばれます。出力がまだ大きい場合は、1段階下げて再エンコードします。',
+    willUse: '使用する設定:',
+    usedParams: '使用パラメータ:',
+    retryingLower: 'サイズ超過のため {settings} で再試行中...',
+    targetMissed: '最低設定でも目標サイズに届きませんでした。',
+    rateCbr: 'CBR',
+    rateCbrDesc: '固定ビットレート：サイズが予測しやすく、全フレームが同じビットレート',
+    rateVbr: 'VBR',
+    rateVbrDesc: '可変ビットレート：LAME 品質レベル V0（最高）〜 V9（最小）',
+    rateAbr: 'ABR',
+    rateAbrDesc: '平均ビットレート：フレームごとに変化し、平均が選択したビットレートになる',
+    vbrQuality: 'VBR 品質',
+    averageBitrate: '平均ビットレート',
+    outputFormat: '出力形式',
+    rateControl: 'ビットレート方式',
+    tags: 'タグ',
+    tagTitle: 'タイトル',
+    tagArtist: 'アーティスト',
+    tagAlbum: 'アルバム',
+    tagTrack: 'トラック',
+    tagYear: '年',
+    tagGenre: 'ジャンル',
+    coverArt: 'カバーアート',
+    noCover: 'カバーなし',
+    replaceCover: 'カバーを変更',
+    removeCover: 'カバーを削除',
+    stripTags: 'すべてのタグを削除',
+    coverNotSupported: '{format} 出力はカバーアートを埋め込めないため、カバーは削除されます。',
+    processingOptions: '処理オプション',
+    stereoHandling: 'ステレオとモノラル',
+    channelsIdentical: '左右のチャンネルは同一です。',
+    channelsNearlyIdentical: '左右のチャンネルはほぼ同一です（差は信号より {level} dB 低い）。',
+    channelSilent: '{channel}チャンネルが無音です。',
+    channelLeft: '左',
+    channelRight: '右',
+    monoSavings: 'モノラルでも聞こえ方は同じで、ビットレートは約半分で済みます：{from} ではなく約 {to}。',
+    monoSavingsVbr: 'モノラルでも聞こえ方は同じで、VBR では1チャンネル分だけ符号化するため小さくなります。',
+    useMono: 'モノラルにダウンミックス',
+    downmixMethod: 'ダウンミックス方法',
+    downmixAverage: '両チャンネルの平均',
+    downmixLeft: '左のみ',
+    downmixRight: '右のみ',
+    stereoMode: 'ステレオ符号化',
+    stereoModeAuto: 'エンコーダーの既定',
+    stereoModeJoint: 'ジョイントステレオ (M/S)',
+    stereoModeStereo: '左右独立',
+    autoMono: 'チャンネルが同一か片方が無音ならモノラルでエンコード',
+    stereoHint: '出力がモノラルのときはダウンミックス方法が使われます。平均は同一のチャンネルの音量を保ちますが、片方が無音だと音量が半分になります。左のみ・右のみならこの 6 dB の低下を避けられます。自動モノラルは常に音のあるチャンネルを残します。ステレオ符号化は MP3 と AAC に適用されます。',
+    cleanupFilters: 'クリーンアップフィルター',
+    filterHighpass: 'ランブル除去ハイパス',
+    filterDenoise: 'ノイズ除去 (afftdn)',
+    filterCompressor: 'コンプレッサー',
+    filterDeesser: 'ディエッサー',
+    filterFrequencyHz: 'カットオフ (Hz)',
+    filterReduction: '除去量 (dB)',
+    filterNoiseFloor: 'ノイズフロア (dB)',
+    filterThreshold: 'スレッショルド (dB)',
+    filterRatio: 'レシオ',
+    filterAttack: 'アタック (ms)',
+    filterRelease: 'リリース (ms)',
+    filterMakeup: 'メイクアップゲイン (dB)',
+    filterIntensity: '強さ (0-1)',
+    filterSplit: '検出周波数 (0-1)',
+    filterMoveUp: '上へ移動',
+    filterMoveDown: '下へ移動',
+    cleanupHint: '有効なフィルターは上から順に1つの FFmpeg フィルターチェーンで処理されます。音声プリセットではすべて有効になり、チェーンは自作プリセットと一緒に保存されます。',
+    loudnessNormalization: 'ラウドネス正規化 (EBU R128)',
+    loudnessPlatform: 'プラットフォーム',
+    loudnessPodcast: 'ポッドキャスト (-16 LUFS)',
+    loudnessStreaming: '音楽ストリーミング (-14 LUFS)',
+    loudnessBroadcast: '放送 (-23 LUFS)',
+    targetLoudness: '目標 (LUFS)',
+    truePeakCeiling: 'トゥルーピーク (dBTP)',
+    cancel: 'キャンセル',
+    parallelJobs: '並列数',
+    queueOrderHint: 'ドラッグで順番を変更できます。',
+    joinMode: 'つなぎ方',
+    joinGap: '間隔',
+    joinCrossfade: 'クロスフェード',
+    joinSeconds: '秒数',
+    mergeFiles: '1つのファイルに結合',
+    mergingFiles: '{count} 個のファイルを結合中...',
+    mergeFailed: '結合に失敗しました:',
+    mergedFile: '結合ファイル:',
+    mergeOversized: '結合ファイルは入力の合計より {percent}% 以上小さくなりませんでした。',
+    downloadMerged: '結合ファイルをダウンロード',
+    analyzeQuality: '品質を分析',
+    analyzingQuality: '分析中...',
+    qualityAnalysisFailed: '品質分析に失敗しました：',
+    snr: 'SN比',
+    spectralDifference: 'スペクトル差',
+    frequencyCutoff: '周波数カットオフ',
+    qualityNotComparable: '出力の時間軸が元と異なるため（無音削除）、サンプル単位の指標は省略しました。',
+    qualityHint: 'SN比が高くスペクトル差が小さいほど、出力は元の音に近くなります。破線は高域が途切れる位置です。',
+    abCompare: '聴き比べ',
+    abHotkeys: 'キー（先にプレーヤーをクリック）：A / B / X で選択、T で切替、スペースで再生',
+    abSilenceRemoved: '圧縮ファイルから無音が削除されているため、最初のカット以降 A と B の位置がずれ、ブラインドテストは利用できません。',
+    abLevelMatched: 'ラウドネス正規化でレベルが {gain} dB 変わったため、大きい方の音量を下げて A と B を同じレベルで再生します。',
+    abOriginal: '元のファイル',
+    abCompressed: '圧縮後',
+    play: '再生',
+    pause: '一時停止',
+    abxStart: 'ABX ブラインドテストを開始',
+    abxStop: 'ABX テストを終了',
+    abxQuestion: 'A、B、X を聴いて、X がどちらかを選んでください。',
+    abxIsA: 'X は A',
+    abxIsB: 'X は B',
+    abxScore: '{total} 回中 {correct} 回正解',
+    abxGuessChance: '当て推量でこの成績になる確率：{chance}%',
+    removeSilence: '無音を削除',
+    detectSilence: '検出',
+    detectingSilence: '無音を検出中...',
+    silenceDetectFailed: '無音の検出に失敗しました：',
+    silenceThreshold: 'しきい値 (dB)',
+    silenceMinDuration: '最短無音 (秒)',
+    noSilenceFound: 'この設定では無音は見つかりませんでした。',
+    silenceSummary: '無音区間 {count} 件、{duration} を削除します',
+    silenceHint: 'しきい値より小さく最短時間より長い無音部分をカットします。「検出」で圧縮前に確認できます。',
+    sizePolicy: '元より大きくしない',
+    sizePolicyAction: '出力が小さくならない場合',
+    sizePolicyOff: 'そのまま出力を使う',
+    sizePolicyKeep: '元のファイルを残す',
+    sizePolicyRetry: '1段階下げて再試行し、だめなら元のファイルを残す',
+    minSavings: '最小削減率 (%)',
+    sizePolicyHint: '十分に圧縮済みのファイルは再エンコードで大きくなることがあります。スキップしたファイルはそのままダウンロードされます。トリムや編集をしたファイルは元のファイルに置き換えられません。',
+    splitParts: 'パートに分割',
+    splitMode: '分割方法',
+    splitOff: '分割しない',
+    splitDuration: '一定の長さ',
+    splitSize: 'パートごとのサイズ',
+    splitMinutes: 'パートごとの分数',
+    splitSizeMB: 'パートごとの MB',
+    splitWindow: '探索範囲 (秒)',
+    splitAtSilence: '各分割点の少し手前にある無音で分割',
+    splitHint: '長い録音はエンコード後に _part01、_part02… というファイルに分割され、トラック番号が設定されます。パートは出力から再エンコードせずにコピーされ、サイズは目安です。',
+    splittingPart: 'パート {index} / {count} を書き出し中...',
+    splitResult: '{count} 個のパートに分割:',
+    downloadParts: '{count} 個のパートをダウンロード (ZIP)',
+    keptOriginal: '出力が {percent}% 以上小さくならなかったため、元のファイルをそのまま残しました。',
+    keptOversized: '出力は {percent}% 以上小さくなっていませんが、元のファイルにはこのファイルのトリムや編集が含まれないため、出力を残しました。',
+    downloadOriginal: '元のファイルをダウンロード',
+    trim: 'トリミング',
+    trimStart: '開始',
+    trimEnd: '終了',
+    trimLength: '長さ',
+    trimReset: 'リセット',
+    zoomIn: '拡大',
+    zoomOut: '縮小',
+    trimHint: 'ハンドルをドラッグしてファイルの一部だけを残します。推定サイズはトリミング後の長さで計算されます。',
+    loudnessHint: '2パス処理：1回目で音声を測定し、2回目で目標に合わせて線形にゲイン補正します。',
+    measuringLoudness: 'ラウドネスを測定中...',
+    loudnessMeasureFailed: 'ラウドネスを測定できませんでした',
+    loudness: 'ラウドネス',
+    truePeak: 'トゥルーピーク',
   },
   de: {
     title: 'MP3 Kompressor',
@@ -222,7 +881,7 @@ export const translations: Record<Language, Translations> = {
     loadingEngine: 'Audio-Engine wird geladen...',
     loadEngineFailed: 'Audio-Engine konnte nicht geladen werden. Bitte Seite neu laden.',
     selectFile: 'Datei auswählen',
-    dragDropHint: 'oder MP3-Datei hierher ziehen',
+    dragDropHint: 'oder Audio- bzw. Videodateien hierher ziehen',
     selectedFile: 'Ausgewählt:',
     pleaseSelectAudio: 'Bitte Audiodatei auswählen',
     fileInfo: 'Datei-Information',
@@ -234,6 +893,17 @@ export const translations: Record<Language, Translations> = {
     channels: 'Kanäle',
     stereo: 'Stereo',
     mono: 'Mono',
+    container: 'Format',
+    codec: 'Codec',
+    mpegStream: 'Stream',
+    rateMode: 'Ratenmodus',
+    channelMode: 'Kanalmodus',
+    jointStereo: 'Joint Stereo',
+    dualChannel: 'Dual Channel',
+    encoder: 'Encoder',
+    encoderDelayPadding: 'Verzögerung / Padding',
+    frameCount: 'Frames',
+    estimatedHint: '≈ Geschätzt: Die Dateiheader enthalten diesen Wert nicht, daher wurde er aus der Dateigröße oder vom Decoder abgeleitet.',
     selectPreset: 'Komprimierungsvorgabe auswählen',
     presetLossless: 'Fast verlustfrei',
     presetLosslessDesc: '320kbps / Original-Abtastrate / Stereo',
@@ -247,10 +917,41 @@ export const translations: Record<Language, Translations> = {
     presetCompactDesc: '96kbps / 32kHz / Stereo',
     presetVoice: 'Sprache',
     presetVoiceDesc: '64kbps / 22.05kHz / Mono',
+    presetVoiceOpus: 'Sprache (Opus)',
+    presetVoiceOpusDesc: '24kbps Opus / 48kHz / Mono',
     presetMinimal: 'Minimal',
     presetMinimalDesc: '32kbps / 16kHz / Mono',
+    presetTarget: 'Zielgröße',
+    presetTargetDesc: 'Unter einem Größenlimit bleiben',
     presetCustom: 'Benutzerdefiniert',
     presetCustomDesc: 'Parameter frei wählen',
+    recommended: 'Empfohlen',
+    presetUpscales: 'Größer als Quelle',
+    presetUpscalesHint: 'Dies übersteigt die Bitrate der verlustbehafteten Quelle. Die Datei wird größer, ohne besser zu klingen.',
+    sourceAnalysis: 'Quelle:',
+    sourceLossless: 'verlustfrei',
+    effectivelyMono: 'Mono in Stereo (L = R)',
+    contentSpeech: 'Sprache',
+    contentMusic: 'Musik',
+    contentUpTo: 'Inhalt bis {freq} kHz',
+    recommendedPreset: 'Empfohlene Voreinstellung:',
+    useRecommended: 'Empfehlung verwenden',
+    editPreset: 'Bearbeiten',
+    deletePreset: 'Löschen',
+    presetOrderHint: 'Voreinstellungen zum Umsortieren ziehen.',
+    exportPresets: 'Voreinstellungen exportieren',
+    importPresets: 'Voreinstellungen importieren',
+    presetNamePlaceholder: 'Name der Voreinstellung',
+    savePreset: 'Als Voreinstellung speichern',
+    updatePreset: 'Voreinstellung aktualisieren',
+    saveAsNewPreset: 'Als neue speichern',
+    presetImportFailed: 'Voreinstellungen können nicht importiert werden:',
+    presetEntry: 'Voreinstellung #{index}:',
+    presetIssueJson: 'Die Datei ist kein gültiges JSON',
+    presetIssueFormat: 'Die Datei ist kein Voreinstellungs-Export',
+    presetIssueVersion: 'Die Datei wurde von einer nicht unterstützten Version exportiert',
+    presetIssueNotObject: 'kein Voreinstellungsobjekt',
+    presetIssueField: '„{field}“ fehlt oder ist ungültig',
     customParams: 'Benutzerdefinierte Parameter',
     sr48000: '48000 Hz (Professionell)',
     sr44100: '44100 Hz (CD-Standard)',
@@ -271,10 +972,183 @@ export const translations: Record<Language, Translations> = {
     increased: 'Erhöht',
     recompress: 'Neu komprimieren',
     download: 'Komprimierte Datei herunterladen',
-    cannotReadFile: 'Datei kann nicht gelesen werden',
     cannotParseAudio: 'Audiodatei kann nicht analysiert werden',
+    fileTooLarge: 'Die Datei überschreitet das Limit von {limit} und kann im Browser nicht verarbeitet werden',
+    largeFileWarning: 'Große Datei: Sie wird direkt vom Datenträger gelesen und anhand ihrer Header beschrieben, statt im Speicher dekodiert zu werden. Wellenform-Zuschnitt und Qualitätsanalyse sind nicht verfügbar. Dateien bis {limit} werden unterstützt.',
+    outputTooLarge: 'Die Ausgabe könnte die {limit} überschreiten, die in den Speicher passen. Wählen Sie eine niedrigere Bitrate oder ein verlustbehaftetes Format.',
     parseFileError: 'Dateiinfo kann nicht analysiert werden:',
     compressionFailed: 'Komprimierung fehlgeschlagen:',
+    queue: 'Warteschlange',
+    clearAll: 'Alle entfernen',
+    removeJob: 'Entfernen',
+    statusPending: 'Wartend',
+    statusProcessing: 'Wird komprimiert',
+    statusDone: 'Fertig',
+    statusFailed: 'Fehlgeschlagen',
+    statusSkipped: 'Übersprungen (bereits optimal)',
+    fileProgress: 'Datei {current} von {total}',
+    startCompressCount: '{count} Dateien komprimieren',
+    downloadAll: 'Alle ({count}) als ZIP herunterladen',
+    creatingZip: 'ZIP wird erstellt...',
+    zipFailed: 'ZIP konnte nicht erstellt werden:',
+    zipTooLarge: 'Zu groß für ein ZIP (über 4 GB oder 65.535 Dateien), daher werden die Dateien einzeln heruntergeladen.',
+    targetSizeParams: 'Ziel-Dateigröße',
+    targetSize: 'Zielgröße',
+    sizeUnit: 'Einheit',
+    targetSizeHint: 'Die höchste passende Bitrate und Abtastrate wird automatisch gewählt. Ist die Ausgabe trotzdem zu groß, wird eine Stufe niedriger neu kodiert.',
+    willUse: 'Verwendet:',
+    usedParams: 'Verwendete Parameter:',
+    retryingLower: 'Zu groß, neuer Versuch mit {settings}...',
+    targetMissed: 'Selbst die niedrigste Einstellung erreicht die Zielgröße nicht.',
+    rateCbr: 'CBR',
+    rateCbrDesc: 'Konstante Bitrate: vorhersehbare Größe, gleiche Bitrate für jeden Frame',
+    rateVbr: 'VBR',
+    rateVbrDesc: 'Variable Bitrate: LAME-Qualitätsstufen V0 (beste) bis V9 (kleinste)',
+    rateAbr: 'ABR',
+    rateAbrDesc: 'Durchschnittliche Bitrate: variiert pro Frame, entspricht im Mittel der gewählten Bitrate',
+    vbrQuality: 'VBR-Qualität',
+    averageBitrate: 'Durchschn. Bitrate',
+    outputFormat: 'Format',
+    rateControl: 'Bitratenmodus',
+    tags: 'Tags',
+    tagTitle: 'Titel',
+    tagArtist: 'Interpret',
+    tagAlbum: 'Album',
+    tagTrack: 'Titelnummer',
+    tagYear: 'Jahr',
+    tagGenre: 'Genre',
+    coverArt: 'Cover',
+    noCover: 'Kein Cover',
+    replaceCover: 'Cover ersetzen',
+    removeCover: 'Cover entfernen',
+    stripTags: 'Alle Tags entfernen',
+    coverNotSupported: '{format}-Ausgabe kann kein Cover einbetten; das Cover entfällt.',
+    processingOptions: 'Verarbeitung',
+    stereoHandling: 'Stereo und Mono',
+    channelsIdentical: 'Linker und rechter Kanal sind identisch.',
+    channelsNearlyIdentical: 'Linker und rechter Kanal sind fast identisch (Unterschied {level} dB unter dem Signal).',
+    channelSilent: 'Der {channel} Kanal ist stumm.',
+    channelLeft: 'linke',
+    channelRight: 'rechte',
+    monoSavings: 'Mono klingt gleich und braucht etwa die halbe Bitrate: etwa {to} statt {from}.',
+    monoSavingsVbr: 'Mono klingt gleich, und VBR-Ausgaben werden kleiner, weil nur ein Kanal kodiert wird.',
+    useMono: 'Auf Mono heruntermischen',
+    downmixMethod: 'Downmix-Methode',
+    downmixAverage: 'Mittelwert beider',
+    downmixLeft: 'Nur links',
+    downmixRight: 'Nur rechts',
+    stereoMode: 'Stereo-Kodierung',
+    stereoModeAuto: 'Encoder-Standard',
+    stereoModeJoint: 'Joint Stereo (Mitte/Seite)',
+    stereoModeStereo: 'Links/rechts getrennt',
+    autoMono: 'In Mono kodieren, wenn die Kanäle identisch sind oder einer stumm ist',
+    stereoHint: 'Die Downmix-Methode gilt immer, wenn die Ausgabe Mono ist. Der Mittelwert hält identische Kanäle auf ihrem Pegel, halbiert aber eine Datei mit einem stummen Kanal; Nur links oder Nur rechts vermeiden diesen Abfall um 6 dB. Automatisches Mono behält immer den Kanal mit Ton. Die Stereo-Kodierung gilt für MP3 und AAC.',
+    cleanupFilters: 'Bereinigungsfilter',
+    filterHighpass: 'Rumpel-Hochpass',
+    filterDenoise: 'Rauschunterdrückung (afftdn)',
+    filterCompressor: 'Kompressor',
+    filterDeesser: 'De-Esser',
+    filterFrequencyHz: 'Grenzfrequenz (Hz)',
+    filterReduction: 'Absenkung (dB)',
+    filterNoiseFloor: 'Rauschpegel (dB)',
+    filterThreshold: 'Schwelle (dB)',
+    filterRatio: 'Ratio',
+    filterAttack: 'Attack (ms)',
+    filterRelease: 'Release (ms)',
+    filterMakeup: 'Aufholverstärkung (dB)',
+    filterIntensity: 'Stärke (0-1)',
+    filterSplit: 'Erkennungsfrequenz (0-1)',
+    filterMoveUp: 'Nach oben',
+    filterMoveDown: 'Nach unten',
+    cleanupHint: 'Aktivierte Filter laufen von oben nach unten in einer FFmpeg-Filterkette. Sprach-Voreinstellungen schalten alle ein; die Kette wird mit eigenen Voreinstellungen gespeichert.',
+    loudnessNormalization: 'Lautheitsnormalisierung (EBU R128)',
+    loudnessPlatform: 'Plattform',
+    loudnessPodcast: 'Podcast (-16 LUFS)',
+    loudnessStreaming: 'Musik-Streaming (-14 LUFS)',
+    loudnessBroadcast: 'Rundfunk (-23 LUFS)',
+    targetLoudness: 'Ziel (LUFS)',
+    truePeakCeiling: 'True Peak (dBTP)',
+    cancel: 'Abbrechen',
+    parallelJobs: 'Parallel',
+    queueOrderHint: 'Dateien ziehen, um die Reihenfolge zu ändern.',
+    joinMode: 'Übergang',
+    joinGap: 'Pause',
+    joinCrossfade: 'Überblendung',
+    joinSeconds: 'Sekunden',
+    mergeFiles: 'Zu einer Datei zusammenfügen',
+    mergingFiles: '{count} Dateien werden zusammengefügt...',
+    mergeFailed: 'Zusammenfügen fehlgeschlagen:',
+    mergedFile: 'Zusammengefügte Datei:',
+    mergeOversized: 'Die zusammengefügte Datei ist nicht mindestens {percent} % kleiner als alle Eingaben zusammen.',
+    downloadMerged: 'Zusammengefügte Datei herunterladen',
+    analyzeQuality: 'Qualität analysieren',
+    analyzingQuality: 'Wird analysiert...',
+    qualityAnalysisFailed: 'Qualitätsanalyse fehlgeschlagen:',
+    snr: 'SNR',
+    spectralDifference: 'Spektrale Abweichung',
+    frequencyCutoff: 'Frequenzgrenze',
+    qualityNotComparable: 'Die Zeitachse der Ausgabe weicht von der Quelle ab (Stille entfernt), daher entfallen die Metriken auf Sample-Ebene.',
+    qualityHint: 'Höherer SNR und geringere spektrale Abweichung bedeuten, dass die Ausgabe näher am Original ist. Die gestrichelte Linie zeigt, wo die Höhen enden.',
+    abCompare: 'Vergleichen',
+    abHotkeys: 'Tasten (zuerst den Player anklicken): A / B / X wählen, T wechselt, Leertaste spielt ab',
+    abSilenceRemoved: 'Aus der komprimierten Datei wurde Stille entfernt, daher laufen A und B nach der ersten Lücke auseinander und der Blindtest ist nicht verfügbar.',
+    abLevelMatched: 'Die Lautheitsnormalisierung hat den Pegel um {gain} dB verändert, daher wird die lautere Quelle abgesenkt, damit A und B gleich laut spielen.',
+    abOriginal: 'Original',
+    abCompressed: 'Komprimiert',
+    play: 'Abspielen',
+    pause: 'Pause',
+    abxStart: 'ABX-Blindtest starten',
+    abxStop: 'ABX-Test beenden',
+    abxQuestion: 'Hören Sie A, B und X und wählen Sie, welches X ist.',
+    abxIsA: 'X ist A',
+    abxIsB: 'X ist B',
+    abxScore: '{correct} von {total} richtig',
+    abxGuessChance: '{chance} % Wahrscheinlichkeit, dies durch Raten zu erreichen',
+    removeSilence: 'Stille entfernen',
+    detectSilence: 'Erkennen',
+    detectingSilence: 'Stille wird erkannt...',
+    silenceDetectFailed: 'Stilleerkennung fehlgeschlagen:',
+    silenceThreshold: 'Schwelle (dB)',
+    silenceMinDuration: 'Mindestdauer Stille (s)',
+    noSilenceFound: 'Mit diesen Einstellungen wurde keine Stille gefunden.',
+    silenceSummary: '{count} stille Abschnitte, {duration} werden entfernt',
+    silenceHint: 'Pausen unter der Schwelle, die länger als die Mindestdauer sind, werden herausgeschnitten. Mit „Erkennen“ lassen sie sich vor dem Komprimieren prüfen.',
+    sizePolicy: 'Nie größer',
+    sizePolicyAction: 'Wenn die Ausgabe nicht kleiner ist',
+    sizePolicyOff: 'Ausgabe trotzdem behalten',
+    sizePolicyKeep: 'Original behalten',
+    sizePolicyRetry: 'Eine Stufe niedriger versuchen, sonst Original behalten',
+    minSavings: 'Mindestersparnis (%)',
+    sizePolicyHint: 'Bereits gut komprimierte Dateien können beim Neukodieren größer werden. Übersprungene Dateien werden unverändert heruntergeladen. Zugeschnittene oder bearbeitete Dateien werden nie durch das Original ersetzt.',
+    splitParts: 'In Teile aufteilen',
+    splitMode: 'Aufteilen nach',
+    splitOff: 'Nicht aufteilen',
+    splitDuration: 'Feste Dauer',
+    splitSize: 'Größe pro Teil',
+    splitMinutes: 'Minuten pro Teil',
+    splitSizeMB: 'MB pro Teil',
+    splitWindow: 'Suchbereich (s)',
+    splitAtSilence: 'An einer Stille kurz vor jedem Schnittpunkt schneiden',
+    splitHint: 'Lange Aufnahmen werden nach dem Kodieren in Dateien namens _part01, _part02, … mit Titelnummern geschnitten. Die Teile werden ohne Neukodierung aus der Ausgabe kopiert; die Größen pro Teil sind ungefähr.',
+    splittingPart: 'Teil {index} von {count} wird geschrieben...',
+    splitResult: 'In {count} Teile aufgeteilt:',
+    downloadParts: '{count} Teile herunterladen (ZIP)',
+    keptOriginal: 'Die Ausgabe war nicht mindestens {percent} % kleiner, daher bleibt die Originaldatei unverändert.',
+    keptOversized: 'Die Ausgabe ist nicht mindestens {percent} % kleiner, wird aber behalten, da dem Original der Zuschnitt oder die Änderungen dieser Datei fehlen.',
+    downloadOriginal: 'Originaldatei herunterladen',
+    trim: 'Zuschneiden',
+    trimStart: 'Anfang',
+    trimEnd: 'Ende',
+    trimLength: 'Länge',
+    trimReset: 'Zurücksetzen',
+    zoomIn: 'Vergrößern',
+    zoomOut: 'Verkleinern',
+    trimHint: 'Ziehen Sie die Griffe, um nur einen Teil der Datei zu behalten. Die Größenschätzung nutzt die gekürzte Länge.',
+    loudnessHint: 'Zwei Durchgänge: Der erste misst das Audio, der zweite korrigiert die Verstärkung linear auf das Ziel.',
+    measuringLoudness: 'Lautheit wird gemessen...',
+    loudnessMeasureFailed: 'Lautheit konnte nicht gemessen werden',
+    loudness: 'Lautheit',
+    truePeak: 'True Peak',
   },
   fr: {
     title: 'Compresseur MP3',
@@ -282,7 +1156,7 @@ export const translations: Record<Language, Translations> = {
     loadingEngine: 'Chargement du moteur audio...',
     loadEngineFailed: 'Échec du chargement du moteur audio. Veuillez rafraîchir la page.',
     selectFile: 'Choisir un fichier',
-    dragDropHint: 'ou glissez-déposez un fichier MP3 ici',
+    dragDropHint: 'ou glissez-déposez des fichiers audio ou vidéo ici',
     selectedFile: 'Sélectionné:',
     pleaseSelectAudio: 'Veuillez sélectionner un fichier audio',
     fileInfo: 'Informations du fichier',
@@ -294,6 +1168,17 @@ export const translations: Record<Language, Translations> = {
     channels: 'Canaux',
     stereo: 'Stéréo',
     mono: 'Mono',
+    container: 'Format',
+    codec: 'Codec',
+    mpegStream: 'Flux',
+    rateMode: 'Mode de débit',
+    channelMode: 'Mode des canaux',
+    jointStereo: 'Joint stéréo',
+    dualChannel: 'Double canal',
+    encoder: 'Encodeur',
+    encoderDelayPadding: 'Délai / Remplissage',
+    frameCount: 'Trames',
+    estimatedHint: '≈ Estimé : les en-têtes du fichier n\'indiquent pas cette valeur, elle a donc été déduite de la taille du fichier ou du décodeur.',
     selectPreset: 'Sélectionner un préréglage de compression',
     presetLossless: 'Quasi sans perte',
     presetLosslessDesc: '320kbps / Fréquence originale / Stéréo',
@@ -307,10 +1192,41 @@ export const translations: Record<Language, Translations> = {
     presetCompactDesc: '96kbps / 32kHz / Stéréo',
     presetVoice: 'Voix',
     presetVoiceDesc: '64kbps / 22.05kHz / Mono',
+    presetVoiceOpus: 'Voix (Opus)',
+    presetVoiceOpusDesc: '24kbps Opus / 48kHz / Mono',
     presetMinimal: 'Minimal',
     presetMinimalDesc: '32kbps / 16kHz / Mono',
+    presetTarget: 'Taille cible',
+    presetTargetDesc: 'Respecter une taille maximale',
     presetCustom: 'Personnalisé',
     presetCustomDesc: 'Choisir les paramètres librement',
+    recommended: 'Recommandé',
+    presetUpscales: 'Plus grand que la source',
+    presetUpscalesHint: 'Cela dépasse le débit de la source avec perte. Le fichier grossit sans sonner mieux.',
+    sourceAnalysis: 'Source:',
+    sourceLossless: 'sans perte',
+    effectivelyMono: 'Mono en stéréo (G = D)',
+    contentSpeech: 'Parole',
+    contentMusic: 'Musique',
+    contentUpTo: 'Contenu jusqu\'à {freq} kHz',
+    recommendedPreset: 'Préréglage recommandé:',
+    useRecommended: 'Utiliser la recommandation',
+    editPreset: 'Modifier',
+    deletePreset: 'Supprimer',
+    presetOrderHint: 'Faites glisser les préréglages pour les réordonner.',
+    exportPresets: 'Exporter les préréglages',
+    importPresets: 'Importer des préréglages',
+    presetNamePlaceholder: 'Nom du préréglage',
+    savePreset: 'Enregistrer comme préréglage',
+    updatePreset: 'Mettre à jour le préréglage',
+    saveAsNewPreset: 'Enregistrer comme nouveau',
+    presetImportFailed: 'Impossible d\'importer les préréglages:',
+    presetEntry: 'Préréglage n°{index}:',
+    presetIssueJson: 'le fichier n\'est pas un JSON valide',
+    presetIssueFormat: 'le fichier n\'est pas un export de préréglages',
+    presetIssueVersion: 'le fichier a été exporté par une version non prise en charge',
+    presetIssueNotObject: 'pas un objet de préréglage',
+    presetIssueField: '« {field} » est manquant ou invalide',
     customParams: 'Paramètres personnalisés',
     sr48000: '48000 Hz (Professionnel)',
     sr44100: '44100 Hz (Standard CD)',
@@ -331,9 +1247,182 @@ export const translations: Record<Language, Translations> = {
     increased: 'Augmenté',
     recompress: 'Recompresser',
     download: 'Télécharger le fichier compressé',
-    cannotReadFile: 'Impossible de lire le fichier',
     cannotParseAudio: 'Impossible d\'analyser le fichier audio',
+    fileTooLarge: 'Le fichier dépasse la limite de {limit} et ne peut pas être traité dans le navigateur',
+    largeFileWarning: 'Fichier volumineux. Il est lu directement depuis le disque et décrit à partir de ses en-têtes au lieu d\'être décodé en mémoire. Le découpage sur la forme d\'onde et l\'analyse de qualité ne sont pas disponibles. Les fichiers jusqu\'à {limit} sont pris en charge.',
+    outputTooLarge: 'La sortie pourrait dépasser les {limit} qui tiennent en mémoire. Choisissez un débit plus faible ou un format avec perte.',
     parseFileError: 'Impossible d\'analyser les informations du fichier:',
     compressionFailed: 'Échec de la compression:',
+    queue: 'File d\'attente',
+    clearAll: 'Tout effacer',
+    removeJob: 'Retirer',
+    statusPending: 'En attente',
+    statusProcessing: 'Compression',
+    statusDone: 'Terminé',
+    statusFailed: 'Échec',
+    statusSkipped: 'Ignoré (déjà optimal)',
+    fileProgress: 'Fichier {current} sur {total}',
+    startCompressCount: 'Compresser {count} fichiers',
+    downloadAll: 'Tout télécharger ({count}) en ZIP',
+    creatingZip: 'Création du ZIP...',
+    zipFailed: 'Échec de la création du ZIP:',
+    zipTooLarge: 'Trop volumineux pour un seul ZIP (plus de 4 Go ou 65 535 fichiers) : les fichiers sont téléchargés un par un.',
+    targetSizeParams: 'Taille de fichier cible',
+    targetSize: 'Taille cible',
+    sizeUnit: 'Unité',
+    targetSizeHint: 'Le débit et la fréquence d\'échantillonnage les plus élevés qui tiennent sont choisis automatiquement. Si le résultat reste trop gros, il est réencodé un cran plus bas.',
+    willUse: 'Paramètres:',
+    usedParams: 'Paramètres utilisés:',
+    retryingLower: 'Trop volumineux, nouvel essai à {settings}...',
+    targetMissed: 'Même le réglage le plus bas n\'atteint pas la taille cible.',
+    rateCbr: 'CBR',
+    rateCbrDesc: 'Débit constant : taille prévisible, même débit pour chaque trame',
+    rateVbr: 'VBR',
+    rateVbrDesc: 'Débit variable : niveaux de qualité LAME V0 (meilleur) à V9 (plus petit)',
+    rateAbr: 'ABR',
+    rateAbrDesc: 'Débit moyen : varie selon les trames mais atteint en moyenne le débit choisi',
+    vbrQuality: 'Qualité VBR',
+    averageBitrate: 'Débit moyen',
+    outputFormat: 'Format',
+    rateControl: 'Mode de débit',
+    tags: 'Tags',
+    tagTitle: 'Titre',
+    tagArtist: 'Artiste',
+    tagAlbum: 'Album',
+    tagTrack: 'Piste',
+    tagYear: 'Année',
+    tagGenre: 'Genre',
+    coverArt: 'Pochette',
+    noCover: 'Aucune pochette',
+    replaceCover: 'Remplacer la pochette',
+    removeCover: 'Retirer la pochette',
+    stripTags: 'Supprimer tous les tags',
+    coverNotSupported: 'La sortie {format} ne peut pas intégrer de pochette ; elle sera supprimée.',
+    processingOptions: 'Traitement',
+    stereoHandling: 'Stéréo et mono',
+    channelsIdentical: 'Les canaux gauche et droit sont identiques.',
+    channelsNearlyIdentical: 'Les canaux gauche et droit sont presque identiques (différence {level} dB sous le signal).',
+    channelSilent: 'Le canal {channel} est muet.',
+    channelLeft: 'gauche',
+    channelRight: 'droit',
+    monoSavings: 'En mono, le son est le même pour environ la moitié du débit : environ {to} au lieu de {from}.',
+    monoSavingsVbr: 'En mono, le son est le même, et la sortie VBR est plus petite car un seul canal est encodé.',
+    useMono: 'Réduire en mono',
+    downmixMethod: 'Méthode de réduction',
+    downmixAverage: 'Moyenne des deux',
+    downmixLeft: 'Gauche seulement',
+    downmixRight: 'Droite seulement',
+    stereoMode: 'Codage stéréo',
+    stereoModeAuto: 'Défaut de l\'encodeur',
+    stereoModeJoint: 'Joint stereo (mid/side)',
+    stereoModeStereo: 'Gauche/droite indépendants',
+    autoMono: 'Encoder en mono si les canaux sont identiques ou si l\'un est muet',
+    stereoHint: 'La méthode de réduction s\'applique dès que la sortie est mono. La moyenne garde des canaux identiques à leur niveau, mais divise par deux un fichier dont un canal est muet ; Gauche ou Droite seulement évitent cette baisse de 6 dB. Le mono automatique garde toujours le canal qui contient du son. Le codage stéréo s\'applique au MP3 et à l\'AAC.',
+    cleanupFilters: 'Filtres de nettoyage',
+    filterHighpass: 'Passe-haut anti-grondement',
+    filterDenoise: 'Réduction du bruit (afftdn)',
+    filterCompressor: 'Compresseur',
+    filterDeesser: 'De-esser',
+    filterFrequencyHz: 'Fréquence de coupure (Hz)',
+    filterReduction: 'Réduction (dB)',
+    filterNoiseFloor: 'Plancher de bruit (dB)',
+    filterThreshold: 'Seuil (dB)',
+    filterRatio: 'Ratio',
+    filterAttack: 'Attaque (ms)',
+    filterRelease: 'Relâchement (ms)',
+    filterMakeup: 'Gain de compensation (dB)',
+    filterIntensity: 'Intensité (0-1)',
+    filterSplit: 'Fréquence de détection (0-1)',
+    filterMoveUp: 'Monter',
+    filterMoveDown: 'Descendre',
+    cleanupHint: 'Les filtres activés s\'appliquent de haut en bas dans une seule chaîne de filtres FFmpeg. Les préréglages voix les activent tous ; la chaîne est enregistrée avec vos propres préréglages.',
+    loudnessNormalization: 'Normalisation du volume (EBU R128)',
+    loudnessPlatform: 'Plateforme',
+    loudnessPodcast: 'Podcast (-16 LUFS)',
+    loudnessStreaming: 'Streaming musical (-14 LUFS)',
+    loudnessBroadcast: 'Diffusion (-23 LUFS)',
+    targetLoudness: 'Cible (LUFS)',
+    truePeakCeiling: 'Crête vraie (dBTP)',
+    cancel: 'Annuler',
+    parallelJobs: 'En parallèle',
+    queueOrderHint: 'Faites glisser les fichiers pour changer leur ordre.',
+    joinMode: 'Raccord',
+    joinGap: 'Pause',
+    joinCrossfade: 'Fondu enchaîné',
+    joinSeconds: 'Secondes',
+    mergeFiles: 'Fusionner en un seul fichier',
+    mergingFiles: 'Fusion de {count} fichiers...',
+    mergeFailed: 'Échec de la fusion:',
+    mergedFile: 'Fichier fusionné:',
+    mergeOversized: 'Le fichier fusionné n\'est pas plus petit d\'au moins {percent} % que l\'ensemble de ses entrées.',
+    downloadMerged: 'Télécharger le fichier fusionné',
+    analyzeQuality: 'Analyser la qualité',
+    analyzingQuality: 'Analyse...',
+    qualityAnalysisFailed: 'Échec de l\'analyse de qualité:',
+    snr: 'RSB',
+    spectralDifference: 'Écart spectral',
+    frequencyCutoff: 'Coupure en fréquence',
+    qualityNotComparable: 'La chronologie de la sortie diffère de la source (silences supprimés) : les mesures échantillon par échantillon sont ignorées.',
+    qualityHint: 'Un RSB plus élevé et un écart spectral plus faible signifient une sortie plus proche de l\'original. La ligne pointillée marque où s\'arrêtent les aigus.',
+    abCompare: 'Comparer',
+    abHotkeys: 'Touches (cliquez d\'abord sur le lecteur) : A / B / X pour choisir, T pour basculer, Espace pour lire',
+    abSilenceRemoved: 'Les silences ont été retirés du fichier compressé : A et B se décalent après la première coupure et le test à l\'aveugle n\'est pas disponible.',
+    abLevelMatched: 'La normalisation de la sonie a modifié le niveau de {gain} dB : la source la plus forte est donc baissée pour que A et B jouent au même niveau.',
+    abOriginal: 'Original',
+    abCompressed: 'Compressé',
+    play: 'Lire',
+    pause: 'Pause',
+    abxStart: 'Lancer un test ABX à l\'aveugle',
+    abxStop: 'Terminer le test ABX',
+    abxQuestion: 'Écoutez A, B et X, puis indiquez ce qu\'est X.',
+    abxIsA: 'X est A',
+    abxIsB: 'X est B',
+    abxScore: '{correct} sur {total} corrects',
+    abxGuessChance: '{chance} % de chances d\'obtenir ce score au hasard',
+    removeSilence: 'Supprimer les silences',
+    detectSilence: 'Détecter',
+    detectingSilence: 'Détection des silences...',
+    silenceDetectFailed: 'Échec de la détection des silences:',
+    silenceThreshold: 'Seuil (dB)',
+    silenceMinDuration: 'Silence minimal (s)',
+    noSilenceFound: 'Aucun silence trouvé avec ces réglages.',
+    silenceSummary: '{count} passages silencieux, {duration} seront supprimés',
+    silenceHint: 'Les blancs sous le seuil et plus longs que la durée minimale sont coupés. Cliquez sur Détecter pour les vérifier avant la compression.',
+    sizePolicy: 'Jamais plus gros',
+    sizePolicyAction: 'Si la sortie n\'est pas plus petite',
+    sizePolicyOff: 'Garder quand même la sortie',
+    sizePolicyKeep: 'Garder l\'original',
+    sizePolicyRetry: 'Réessayer un cran plus bas, sinon garder l\'original',
+    minSavings: 'Gain minimal (%)',
+    sizePolicyHint: 'Les fichiers déjà bien compressés peuvent grossir une fois réencodés. Les fichiers ignorés sont téléchargés sans modification. Les fichiers découpés ou modifiés ne sont jamais remplacés par l\'original.',
+    splitParts: 'Découper en parties',
+    splitMode: 'Découper par',
+    splitOff: 'Ne pas découper',
+    splitDuration: 'Durée fixe',
+    splitSize: 'Taille par partie',
+    splitMinutes: 'Minutes par partie',
+    splitSizeMB: 'Mo par partie',
+    splitWindow: 'Fenêtre de recherche (s)',
+    splitAtSilence: 'Couper sur un silence juste avant chaque point de coupe',
+    splitHint: 'Les longs enregistrements sont découpés après l\'encodage en fichiers nommés _part01, _part02, … avec les numéros de piste. Les parties sont copiées depuis la sortie sans réencodage ; leur taille est approximative.',
+    splittingPart: 'Écriture de la partie {index} sur {count}...',
+    splitResult: 'Découpé en {count} parties:',
+    downloadParts: 'Télécharger {count} parties (ZIP)',
+    keptOriginal: 'La sortie n\'était pas plus petite d\'au moins {percent} %, le fichier original est donc conservé tel quel.',
+    keptOversized: 'La sortie n\'est pas plus petite d\'au moins {percent} %, mais elle est conservée car l\'original n\'a pas le découpage ni les modifications de ce fichier.',
+    downloadOriginal: 'Télécharger le fichier original',
+    trim: 'Découpe',
+    trimStart: 'Début',
+    trimEnd: 'Fin',
+    trimLength: 'Durée',
+    trimReset: 'Réinitialiser',
+    zoomIn: 'Zoom avant',
+    zoomOut: 'Zoom arrière',
+    trimHint: 'Faites glisser les poignées pour ne garder qu\'une partie du fichier. L\'estimation de taille utilise la durée découpée.',
+    loudnessHint: 'Deux passes : la première mesure l\'audio, la seconde applique une correction de gain linéaire pour atteindre la cible.',
+    measuringLoudness: 'Mesure du volume...',
+    loudnessMeasureFailed: 'Impossible de mesurer le volume',
+    loudness: 'Volume',
+    truePeak: 'Crête vraie',
   },
 }
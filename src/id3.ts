@@ -0,0 +1,186 @@
+export interface AudioTags {
+  title: string
+  artist: string
+  album: string
+  track: string
+  year: string
+  genre: string
+}
+
+export interface CoverArt {
+  data: Uint8Array
+  mimeType: string
+}
+
+export interface Id3Result {
+  version: string
+  tags: AudioTags
+  cover: CoverArt | null
+}
+
+export const emptyTags: AudioTags = { title: '', artist: '', album: '', track: '', year: '', genre: '' }
+
+// ID3v2.3/2.4 frame ids, with the three-letter ID3v2.2 equivalents
+const textFrames: Record<string, keyof AudioTags> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TRCK: 'track', TRK: 'track',
+  TYER: 'year', TDRC: 'year', TYE: 'year',
+  TCON: 'genre', TCO: 'genre',
+}
+
+// ID3v1 genre list, referenced as "(17)" or "17" in TCON
+const genres = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+]
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f)
+}
+
+function uint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i]
+  return value
+}
+
+// Undo unsynchronisation: every 0xFF 0x00 pair was written for a plain 0xFF
+function resync(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(bytes.length)
+  let j = 0
+  for (let i = 0; i < bytes.length; i++) {
+    out[j++] = bytes[i]
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++
+  }
+  return out.subarray(0, j)
+}
+
+function decoderFor(encoding: number, bytes: Uint8Array): { decoder: TextDecoder; skip: number } {
+  switch (encoding) {
+    case 1:
+      // UTF-16 with byte order mark
+      if (bytes[0] === 0xfe && bytes[1] === 0xff) return { decoder: new TextDecoder('utf-16be'), skip: 2 }
+      return { decoder: new TextDecoder('utf-16le'), skip: bytes[0] === 0xff && bytes[1] === 0xfe ? 2 : 0 }
+    case 2:
+      return { decoder: new TextDecoder('utf-16be'), skip: 0 }
+    case 3:
+      return { decoder: new TextDecoder('utf-8'), skip: 0 }
+    default:
+      return { decoder: new TextDecoder('iso-8859-1'), skip: 0 }
+  }
+}
+
+function decodeText(bytes: Uint8Array, encoding: number): string {
+  const { decoder, skip } = decoderFor(encoding, bytes)
+  // ID3v2.4 separates multiple values with null characters
+  return decoder.decode(bytes.subarray(skip)).replace(/\0+$/, '').replace(/\0/g, ' / ').trim()
+}
+
+// End of a null-terminated string; UTF-16 strings end with a double null on an even offset
+function findTerminator(bytes: Uint8Array, start: number, encoding: number): number {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < bytes.length; i += 2) {
+      if (bytes[i] === 0 && bytes[i + 1] === 0) return i
+    }
+    return bytes.length
+  }
+  const end = bytes.indexOf(0, start)
+  return end === -1 ? bytes.length : end
+}
+
+function parseGenre(value: string): string {
+  const match = /^\((\d+)\)(.*)$/.exec(value) ?? /^(\d+)()$/.exec(value)
+  if (!match) return value
+  return match[2] || genres[Number(match[1])] || value
+}
+
+function parsePicture(frame: Uint8Array, legacy: boolean): CoverArt | null {
+  const encoding = frame[0]
+  let offset = 1
+  let mimeType: string
+  if (legacy) {
+    // ID3v2.2 PIC stores a three-letter image format instead of a MIME type
+    const format = String.fromCharCode(...frame.subarray(1, 4)).toUpperCase()
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg'
+    offset = 4
+  } else {
+    const end = frame.indexOf(0, offset)
+    if (end === -1) return null
+    mimeType = new TextDecoder('iso-8859-1').decode(frame.subarray(offset, end)).toLowerCase() || 'image/jpeg'
+    if (!mimeType.includes('/')) mimeType = `image/${mimeType === 'jpg' ? 'jpeg' : mimeType}`
+    offset = end + 1
+  }
+  offset += 1 // picture type
+  const descriptionEnd = findTerminator(frame, offset, encoding)
+  offset = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1)
+  if (offset >= frame.length) return null
+  return { data: frame.slice(offset), mimeType }
+}
+
+/**
+ * Read title, artist, album, track, year, genre and front cover from an
+ * ID3v2.2, v2.3 or v2.4 tag at the start of the file. Returns null when the
+ * file has no ID3v2 tag.
+ */
+export async function readId3Tags(file: File): Promise<Id3Result | null> {
+  const header = new Uint8Array(await file.slice(0, 10).arrayBuffer())
+  if (header.length < 10 || String.fromCharCode(header[0], header[1], header[2]) !== 'ID3') return null
+
+  const major = header[3]
+  const flags = header[5]
+  const size = syncsafe(header, 6)
+  let body = new Uint8Array(await file.slice(10, 10 + size).arrayBuffer())
+  if (major < 4 && flags & 0x80) body = resync(body)
+
+  let offset = 0
+  if (flags & 0x40) {
+    // Extended header: v2.4 counts its own size field, v2.3 does not
+    offset = major === 4 ? syncsafe(body, 0) : uint(body, 0, 4) + 4
+  }
+
+  const legacy = major === 2
+  const idLength = legacy ? 3 : 4
+  const headerLength = legacy ? 6 : 10
+  const tags: AudioTags = { ...emptyTags }
+  let cover: CoverArt | null = null
+
+  while (offset + headerLength <= body.length) {
+    const id = String.fromCharCode(...body.subarray(offset, offset + idLength))
+    if (!/^[A-Z0-9]+$/.test(id)) break // reached padding
+
+    const frameSize = legacy
+      ? uint(body, offset + 3, 3)
+      : major === 4 ? syncsafe(body, offset + 4) : uint(body, offset + 4, 4)
+    const formatFlags = legacy ? 0 : body[offset + 9]
+    let frame = body.subarray(offset + headerLength, offset + headerLength + frameSize)
+    offset += headerLength + frameSize
+
+    if (major === 4) {
+      // Skip compressed or encrypted frames; strip the data length indicator
+      if (formatFlags & 0x0c) continue
+      if (formatFlags & 0x01) frame = frame.subarray(4)
+      if (formatFlags & 0x02) frame = resync(frame)
+    } else if (major === 3 && formatFlags & 0xc0) {
+      continue
+    }
+    if (frame.length === 0) continue
+
+    const field = textFrames[id]
+    if (field && !tags[field]) {
+      const value = decodeText(frame.subarray(1), frame[0])
+      tags[field] = field === 'genre' ? parseGenre(value) : field === 'year' ? value.slice(0, 4) : value
+    } else if ((id === 'APIC' || id === 'PIC') && !cover) {
+      cover = parsePicture(frame, legacy)
+    }
+  }
+
+  return { version: `ID3v2.${major}`, tags, cover }
+}
@@ -6,6 +6,15 @@ import './vibe-design-system/tokens.css'
 import './vibe-design-system/components/githubLinkBanner.css'
 import './index.css'
 
+// Offline support; the worker only exists in production builds
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch((err) => {
+      console.error('Service worker registration failed:', err)
+    })
+  })
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <I18nProvider>
@@ -0,0 +1,287 @@
+export type MpegVersion = '1' | '2' | '2.5'
+export type ChannelMode = 'stereo' | 'joint' | 'dual' | 'mono'
+
+export interface FrameHeader {
+  version: MpegVersion
+  layer: 1 | 2 | 3
+  // kbps; 0 for free-format streams
+  bitrate: number
+  sampleRate: number
+  channelMode: ChannelMode
+  samplesPerFrame: number
+  // Bytes, header included
+  length: number
+}
+
+export interface MpegInfo {
+  version: MpegVersion
+  layer: 1 | 2 | 3
+  // 'VBR/ABR' when the LAME tag leaves the method unset, as FFmpeg's muxer does
+  rateMode: 'CBR' | 'VBR' | 'ABR' | 'VBR/ABR'
+  // Info is LAME's name for the Xing header of a CBR file
+  vbrHeader: 'Xing' | 'Info' | 'VBRI' | null
+  // Exact for CBR and for files with a VBR header, sampled from the first frames otherwise
+  bitrate: number
+  sampleRate: number
+  channels: number
+  channelMode: ChannelMode
+  encoder: string | null
+  // Samples added before and after the audio by the encoder, from the LAME tag
+  encoderDelay: number | null
+  encoderPadding: number | null
+  frameCount: number
+  // Seconds, with the encoder delay and padding removed
+  duration: number
+  // Frame count and duration were derived from the file size, not read from a header
+  estimated: boolean
+}
+
+const HEAD_BYTES = 256 * 1024
+// Frames inspected to tell CBR from VBR when there is no VBR header
+const SAMPLE_FRAMES = 200
+
+const versions: (MpegVersion | null)[] = ['2.5', null, '2', '1']
+const channelModes: ChannelMode[] = ['stereo', 'joint', 'dual', 'mono']
+
+const sampleRates: Record<MpegVersion, number[]> = {
+  '1': [44100, 48000, 32000],
+  '2': [22050, 24000, 16000],
+  '2.5': [11025, 12000, 8000],
+}
+
+// Indexed by the bitrate bits; MPEG-2 and 2.5 share a table
+const bitrates: Record<'1' | '2', Record<1 | 2 | 3, number[]>> = {
+  '1': {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  },
+  '2': {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  },
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f)
+}
+
+// Decode the four-byte frame header at `offset`, or null if there is none
+export function parseFrameHeader(bytes: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null
+
+  const version = versions[(bytes[offset + 1] >> 3) & 0x03]
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03
+  const bitrateIndex = bytes[offset + 2] >> 4
+  const sampleRate = version ? sampleRates[version][(bytes[offset + 2] >> 2) & 0x03] : undefined
+  if (!version || layerBits === 0 || bitrateIndex === 0x0f || !sampleRate) return null
+
+  const layer = (4 - layerBits) as 1 | 2 | 3
+  const bitrate = bitrates[version === '1' ? '1' : '2'][layer][bitrateIndex]
+  const padding = (bytes[offset + 2] >> 1) & 0x01
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== '1' ? 576 : 1152
+  const length = layer === 1
+    ? (Math.floor((12 * bitrate * 1000) / sampleRate) + padding) * 4
+    : Math.floor((samplesPerFrame / 8) * bitrate * 1000 / sampleRate) + padding
+
+  return {
+    version,
+    layer,
+    bitrate,
+    sampleRate,
+    channelMode: channelModes[bytes[offset + 3] >> 6],
+    samplesPerFrame,
+    length,
+  }
+}
+
+// A frame header followed by another of the same stream, to rule out false syncs in tag data
+function findFirstFrame(bytes: Uint8Array, offset: number): { offset: number; header: FrameHeader } | null {
+  for (let i = offset; i + 4 <= bytes.length; i++) {
+    const header = parseFrameHeader(bytes, i)
+    if (!header || header.bitrate === 0) continue
+    const next = parseFrameHeader(bytes, i + header.length)
+    if (i + header.length + 4 > bytes.length || (
+      next && next.version === header.version && next.layer === header.layer && next.sampleRate === header.sampleRate
+    )) {
+      return { offset: i, header }
+    }
+  }
+  return null
+}
+
+// Where the audio ends: ID3v1 and APEv2 tags sit at the end of the file
+async function findAudioEnd(file: File): Promise<number> {
+  const tail = new Uint8Array(await file.slice(Math.max(0, file.size - 160)).arrayBuffer())
+  let end = file.size
+  if (tail.length >= 128 && ascii(tail, tail.length - 128, 3) === 'TAG') {
+    end -= 128
+  }
+  const footer = tail.length - (file.size - end) - 32
+  if (footer >= 0 && ascii(tail, footer, 8) === 'APETAGEX') {
+    const size = tail[footer + 12] | (tail[footer + 13] << 8) | (tail[footer + 14] << 16) | (tail[footer + 15] << 24)
+    // The size covers the items and the footer; a header, if present, adds another 32 bytes
+    end -= size + (tail[footer + 23] & 0x80 ? 32 : 0)
+  }
+  return end
+}
+
+interface VbrHeader {
+  type: 'Xing' | 'Info' | 'VBRI'
+  frames: number | null
+  bytes: number | null
+  encoder: string | null
+  // LAME's VBR method: 0 unknown, 1 and 8 CBR, 2 and 9 ABR, 3 to 7 VBR
+  method: number | null
+  delay: number | null
+  padding: number | null
+}
+
+function parseVbrHeader(bytes: Uint8Array, offset: number, header: FrameHeader): VbrHeader | null {
+  const mono = header.channelMode === 'mono'
+  const sideInfo = header.layer !== 3 ? 0 : header.version === '1' ? (mono ? 17 : 32) : (mono ? 9 : 17)
+  let position = offset + 4 + sideInfo
+  const tag = ascii(bytes, position, 4)
+
+  if (tag === 'Xing' || tag === 'Info') {
+    const flags = uint32(bytes, position + 4)
+    position += 8
+    const frames = flags & 0x01 ? uint32(bytes, position) : null
+    if (flags & 0x01) position += 4
+    const size = flags & 0x02 ? uint32(bytes, position) : null
+    if (flags & 0x02) position += 4
+    if (flags & 0x04) position += 100
+    if (flags & 0x08) position += 4
+
+    // LAME tag (also written by FFmpeg's libmp3lame wrapper) follows the Xing fields
+    const encoder = ascii(bytes, position, 9).replace(/[^\x20-\x7e]/g, '').trim()
+    const hasLame = /^(LAME|Lavc|Lavf|GOGO)/.test(encoder)
+    return {
+      type: tag,
+      frames,
+      bytes: size,
+      encoder: hasLame ? encoder : null,
+      method: hasLame ? bytes[position + 9] & 0x0f : null,
+      delay: hasLame ? (bytes[position + 21] << 4) | (bytes[position + 22] >> 4) : null,
+      padding: hasLame ? ((bytes[position + 22] & 0x0f) << 8) | bytes[position + 23] : null,
+    }
+  }
+
+  // Fraunhofer's VBRI header is always 32 bytes after the frame header
+  if (ascii(bytes, offset + 36, 4) === 'VBRI') {
+    return {
+      type: 'VBRI',
+      frames: uint32(bytes, offset + 50),
+      bytes: uint32(bytes, offset + 46),
+      encoder: 'Fraunhofer',
+      method: null,
+      delay: null,
+      padding: null,
+    }
+  }
+  return null
+}
+
+function getRateMode(vbr: VbrHeader): MpegInfo['rateMode'] {
+  if (vbr.type === 'Info' || vbr.method === 1 || vbr.method === 8) return 'CBR'
+  if (vbr.method === 2 || vbr.method === 9) return 'ABR'
+  // FFmpeg writes 0 for ABR and VBR alike, and the Xing fields are the same for both
+  if (vbr.method === 0) return 'VBR/ABR'
+  return 'VBR'
+}
+
+// Bitrates of the first frames, to tell CBR from VBR without a header
+function sampleBitrates(bytes: Uint8Array, offset: number): number[] {
+  const result: number[] = []
+  while (result.length < SAMPLE_FRAMES) {
+    const header = parseFrameHeader(bytes, offset)
+    if (!header || header.bitrate === 0) break
+    result.push(header.bitrate)
+    offset += header.length
+  }
+  return result
+}
+
+/**
+ * Read the stream parameters of an MPEG audio file the way ffprobe does:
+ * from the first frame header, the Xing/Info or VBRI header and the LAME tag.
+ * Only the start and end of the file are read. Returns null if no valid frame
+ * is found.
+ */
+export async function readMpegInfo(file: File): Promise<MpegInfo | null> {
+  const read = async (from: number) => new Uint8Array(await file.slice(from, from + HEAD_BYTES).arrayBuffer())
+  let base = 0
+  let head = await read(0)
+
+  // Skip ID3v2 tags; a large cover can push the audio past the first read, so read on whenever a 10-byte tag header doesn't fit
+  let start = 0
+  while (start + 10 <= head.length && ascii(head, start, 3) === 'ID3') {
+    start += 10 + syncsafe(head, start + 6) + (head[start + 5] & 0x10 ? 10 : 0)
+    if (start + 10 > head.length) {
+      base += start
+      head = await read(base)
+      start = 0
+    }
+  }
+
+  const frame = findFirstFrame(head, start)
+  return frame ? describe(file, head, frame.offset, frame.header, base) : null
+}
+
+// `bytes` holds the file from `base` on; `offset` is the first frame within it
+async function describe(file: File, bytes: Uint8Array, offset: number, header: FrameHeader, base: number): Promise<MpegInfo> {
+  const vbr = parseVbrHeader(bytes, offset, header)
+  const audioEnd = await findAudioEnd(file)
+  const audioStart = base + offset
+  const delay = vbr?.delay ?? null
+  const padding = vbr?.padding ?? null
+  const channels = header.channelMode === 'mono' ? 1 : 2
+  const common = {
+    version: header.version,
+    layer: header.layer,
+    vbrHeader: vbr?.type ?? null,
+    sampleRate: header.sampleRate,
+    channels,
+    channelMode: header.channelMode,
+    encoder: vbr?.encoder ?? null,
+    encoderDelay: delay,
+    encoderPadding: padding,
+  }
+
+  if (vbr?.frames) {
+    // The header frame itself carries no audio and is not counted
+    const audioBytes = vbr.bytes ?? audioEnd - audioStart
+    const frameDuration = header.samplesPerFrame / header.sampleRate
+    const rateMode = getRateMode(vbr)
+    return {
+      ...common,
+      rateMode,
+      bitrate: rateMode === 'CBR' ? header.bitrate : Math.round((audioBytes * 8) / (vbr.frames * frameDuration) / 1000),
+      frameCount: vbr.frames,
+      duration: Math.max(0, vbr.frames * header.samplesPerFrame - (delay ?? 0) - (padding ?? 0)) / header.sampleRate,
+      estimated: false,
+    }
+  }
+
+  const sampled = sampleBitrates(bytes, offset)
+  const cbr = sampled.every(bitrate => bitrate === sampled[0])
+  const bitrate = cbr ? header.bitrate : Math.round(sampled.reduce((sum, b) => sum + b, 0) / sampled.length)
+  const duration = ((audioEnd - audioStart) * 8) / (bitrate * 1000)
+  return {
+    ...common,
+    rateMode: cbr ? 'CBR' : 'VBR',
+    bitrate,
+    frameCount: Math.round((duration * header.sampleRate) / header.samplesPerFrame),
+    duration,
+    estimated: true,
+  }
+}
@@ -0,0 +1,363 @@
+import { createFilterChain, FilterStage } from './audioFilters'
+import { EncodeSettings, getCodec, nearestValue, OutputCodec, RateControl } from './codecs'
+import { getExtension } from './formats'
+
+/*
+ * Presets, ffmpeg argument building and output file names, shared by the
+ * browser app and the command-line interface. Nothing here touches React,
+ * the DOM or an FFmpeg instance.
+ */
+
+export interface Preset {
+  id: string
+  nameKey: string
+  descKey: string
+  // null follows the selected output format
+  codec: OutputCodec | null
+  bitrate: number
+  sampleRate: number | null
+  channels: number | null
+  // Cleanup filters loaded when the preset is selected; all off if absent
+  filters?: FilterStage[]
+}
+
+export interface VbrLevel {
+  quality: number
+  minBitrate: number
+  maxBitrate: number
+}
+
+// Section of the source to keep, in seconds
+export interface TrimRange {
+  start: number
+  end: number
+}
+
+// How a stereo source becomes mono
+export type DownmixMethod = 'average' | 'left' | 'right'
+
+// Stereo coding of the encoder; 'auto' leaves the encoder's own choice
+export type StereoMode = 'auto' | 'joint' | 'stereo'
+
+export const presets: Preset[] = [
+  { id: 'lossless', nameKey: 'presetLossless', descKey: 'presetLosslessDesc', codec: null, bitrate: 320, sampleRate: null, channels: 2 },
+  { id: 'high', nameKey: 'presetHigh', descKey: 'presetHighDesc', codec: null, bitrate: 256, sampleRate: 44100, channels: 2 },
+  { id: 'standard', nameKey: 'presetStandard', descKey: 'presetStandardDesc', codec: null, bitrate: 192, sampleRate: 44100, channels: 2 },
+  { id: 'medium', nameKey: 'presetMedium', descKey: 'presetMediumDesc', codec: null, bitrate: 128, sampleRate: 44100, channels: 2 },
+  { id: 'compact', nameKey: 'presetCompact', descKey: 'presetCompactDesc', codec: null, bitrate: 96, sampleRate: 32000, channels: 2 },
+  { id: 'voice', nameKey: 'presetVoice', descKey: 'presetVoiceDesc', codec: null, bitrate: 64, sampleRate: 22050, channels: 1, filters: createFilterChain(true) },
+  { id: 'voice-opus', nameKey: 'presetVoiceOpus', descKey: 'presetVoiceOpusDesc', codec: 'opus', bitrate: 24, sampleRate: 48000, channels: 1, filters: createFilterChain(true) },
+  { id: 'minimal', nameKey: 'presetMinimal', descKey: 'presetMinimalDesc', codec: null, bitrate: 32, sampleRate: 16000, channels: 1 },
+  { id: 'target', nameKey: 'presetTarget', descKey: 'presetTargetDesc', codec: null, bitrate: 128, sampleRate: 44100, channels: null },
+  { id: 'custom', nameKey: 'presetCustom', descKey: 'presetCustomDesc', codec: null, bitrate: 128, sampleRate: 44100, channels: 2 },
+]
+
+// Explicit gains: -ac 1 sums at -3 dB per channel, which lifts identical channels by 3 dB
+export const downmixFilters: Record<DownmixMethod, string> = {
+  average: 'pan=mono|c0=0.5*c0+0.5*c1',
+  left: 'pan=mono|c0=c0',
+  right: 'pan=mono|c0=c1',
+}
+
+// Encoder options that switch joint (mid/side) stereo on or off
+export const stereoModeOptionNames: Partial<Record<OutputCodec, string>> = {
+  mp3: '-joint_stereo',
+  aac: '-aac_ms',
+}
+
+// Typical bitrate ranges of LAME's -V0 to -V9 quality levels for stereo music
+export const vbrLevels: VbrLevel[] = [
+  { quality: 0, minBitrate: 220, maxBitrate: 260 },
+  { quality: 1, minBitrate: 190, maxBitrate: 250 },
+  { quality: 2, minBitrate: 170, maxBitrate: 210 },
+  { quality: 3, minBitrate: 150, maxBitrate: 195 },
+  { quality: 4, minBitrate: 140, maxBitrate: 185 },
+  { quality: 5, minBitrate: 120, maxBitrate: 150 },
+  { quality: 6, minBitrate: 100, maxBitrate: 130 },
+  { quality: 7, minBitrate: 80, maxBitrate: 120 },
+  { quality: 8, minBitrate: 70, maxBitrate: 105 },
+  { quality: 9, minBitrate: 45, maxBitrate: 85 },
+]
+
+export function vbrNominalBitrate(level: VbrLevel): number {
+  return Math.round((level.minBitrate + level.maxBitrate) / 2)
+}
+
+// Quality level whose nominal bitrate is closest to a CBR bitrate
+export function vbrQualityForBitrate(bitrate: number): number {
+  let best = vbrLevels[0]
+  for (const level of vbrLevels) {
+    if (Math.abs(vbrNominalBitrate(level) - bitrate) < Math.abs(vbrNominalBitrate(best) - bitrate)) {
+      best = level
+    }
+  }
+  return best.quality
+}
+
+// Pair each bitrate with the sample rate the built-in presets use for it,
+// so low bitrates don't waste bits on frequencies they can't encode well
+export function sampleRateForBitrate(bitrate: number): number {
+  if (bitrate >= 112) return 44100
+  if (bitrate >= 80) return 32000
+  if (bitrate >= 48) return 22050
+  return 16000
+}
+
+// Snap settings to the rate-control modes, bitrates, sample rates and channels the codec supports
+export function fitToCodec(settings: EncodeSettings): EncodeSettings {
+  const codec = getCodec(settings.codec)
+  let sampleRate = settings.sampleRate
+  if (codec.sampleRates.length === 1) {
+    sampleRate = codec.sampleRates[0]
+  } else if (sampleRate !== null) {
+    sampleRate = nearestValue(codec.sampleRates, sampleRate)
+  }
+  return {
+    ...settings,
+    rateControl: codec.rateControls.includes(settings.rateControl) ? settings.rateControl : codec.rateControls[0] ?? 'cbr',
+    bitrate: codec.bitrates.length > 0 ? nearestValue(codec.bitrates, settings.bitrate) : settings.bitrate,
+    sampleRate,
+    channels: codec.channels ?? settings.channels,
+  }
+}
+
+// LAME quality levels only apply to MP3; other codecs do VBR around a target bitrate
+export function usesVbrQuality(settings: EncodeSettings): boolean {
+  return settings.codec === 'mp3' && settings.rateControl === 'vbr'
+}
+
+export function getPresetSettings(preset: Preset, codec: OutputCodec, rateControl: RateControl): EncodeSettings {
+  return fitToCodec({
+    codec: preset.codec ?? codec,
+    rateControl,
+    bitrate: preset.bitrate,
+    vbrQuality: vbrQualityForBitrate(preset.bitrate),
+    sampleRate: preset.sampleRate,
+    channels: preset.channels,
+  })
+}
+
+// Candidate settings for target-size mode, highest quality first
+export function getTargetSizeSteps(codec: OutputCodec, rateControl: RateControl): EncodeSettings[] {
+  if (codec === 'mp3' && rateControl === 'vbr') {
+    return vbrLevels.map(level => ({
+      codec,
+      rateControl,
+      bitrate: vbrNominalBitrate(level),
+      vbrQuality: level.quality,
+      sampleRate: sampleRateForBitrate(vbrNominalBitrate(level)),
+      channels: null,
+    }))
+  }
+  const bitrates = getCodec(codec).bitrates
+  // Lossless codecs have a single step at the source sample rate
+  if (bitrates.length === 0) {
+    return [fitToCodec({ codec, rateControl, bitrate: 0, vbrQuality: 0, sampleRate: null, channels: null })]
+  }
+  return bitrates.map(bitrate => fitToCodec({
+    codec,
+    rateControl,
+    bitrate,
+    vbrQuality: vbrQualityForBitrate(bitrate),
+    sampleRate: sampleRateForBitrate(bitrate),
+    channels: null,
+  }))
+}
+
+// One bitrate or VBR level below, everything else unchanged; null if there is no smaller setting
+export function lowerSettings(settings: EncodeSettings): EncodeSettings | null {
+  if (usesVbrQuality(settings)) {
+    const level = vbrLevels.find(l => l.quality === settings.vbrQuality + 1)
+    return level ? { ...settings, vbrQuality: level.quality, bitrate: vbrNominalBitrate(level) } : null
+  }
+  // Codec bitrates are listed from highest to lowest
+  const bitrate = getCodec(settings.codec).bitrates.find(b => b < settings.bitrate)
+  return bitrate ? { ...settings, bitrate, vbrQuality: vbrQualityForBitrate(bitrate) } : null
+}
+
+// Mono needs about half the bitrate of stereo for the same quality; VBR levels adapt by themselves
+export function monoSettings(settings: EncodeSettings): EncodeSettings {
+  if (usesVbrQuality(settings)) return { ...settings, channels: 1 }
+  // Codec bitrates are listed from highest to lowest: the lowest one at or above half
+  const bitrate = getCodec(settings.codec).bitrates.filter(b => b >= settings.bitrate / 2).pop() ?? settings.bitrate
+  return { ...settings, bitrate, vbrQuality: vbrQualityForBitrate(bitrate), channels: 1 }
+}
+
+// Encoder and rate control options
+export function getEncoderArgs({ codec: id, rateControl, bitrate, vbrQuality }: EncodeSettings): string[] {
+  const codec = getCodec(id)
+  const args = ['-c:a', codec.encoder]
+  if (codec.id === 'mp3') {
+    if (rateControl === 'vbr') {
+      args.push('-q:a', vbrQuality.toString())
+    } else {
+      args.push('-b:a', `${bitrate}k`)
+      if (rateControl === 'abr') {
+        args.push('-abr', '1')
+      }
+    }
+  } else if (codec.id === 'opus') {
+    const vbrMode = rateControl === 'cbr' ? 'off' : rateControl === 'abr' ? 'constrained' : 'on'
+    args.push('-b:a', `${bitrate}k`, '-vbr', vbrMode)
+  } else if (codec.bitrates.length > 0) {
+    args.push('-b:a', `${bitrate}k`)
+  }
+  return args
+}
+
+// Keep the real extension so ffmpeg picks the right demuxer
+export function getInputName(fileName: string): string {
+  return `input.${getExtension(fileName) || 'bin'}`
+}
+
+// Sample rate and channel count of the first audio stream, from ffmpeg's description of its inputs
+export function parseAudioStream(log: string): { sampleRate: number; channels: number } | null {
+  const match = log.match(/Audio: .*?, (\d+) Hz, ([^,\n]+)/)
+  if (!match) return null
+  const layout = match[2].trim()
+  const channels = layout === 'mono' ? 1 : layout === 'stereo' ? 2 : parseInt(layout, 10) || 2
+  return { sampleRate: Number(match[1]), channels }
+}
+
+// Seeking on the input keeps the trimmed-off audio out of the filters entirely
+export function getInputArgs(inputName: string, trim: TrimRange | null): string[] {
+  return trim
+    ? ['-ss', trim.start.toFixed(3), '-to', trim.end.toFixed(3), '-i', inputName]
+    : ['-i', inputName]
+}
+
+export function formatSettings(settings: EncodeSettings): string {
+  const codec = getCodec(settings.codec)
+  let rate = ''
+  if (usesVbrQuality(settings)) {
+    rate = ` V${settings.vbrQuality}`
+  } else if (codec.bitrates.length > 0) {
+    rate = ` ${settings.bitrate} kbps${settings.rateControl === 'cbr' ? '' : ` ${settings.rateControl.toUpperCase()}`}`
+  }
+  return `${codec.label}${rate}${settings.sampleRate ? ` / ${settings.sampleRate} Hz` : ''}`
+}
+
+// "name" becomes "name_128kbps.mp3", "name_V2.mp3" or "name_lossless.flac"
+export function formatOutputName(originalName: string, settings: EncodeSettings): string {
+  const codec = getCodec(settings.codec)
+  let quality = `${settings.bitrate}kbps`
+  if (codec.bitrates.length === 0) {
+    quality = 'lossless'
+  } else if (usesVbrQuality(settings)) {
+    quality = `V${settings.vbrQuality}`
+  }
+  return `${originalName}_${quality}.${codec.extension}`
+}
+
+// Append " (2)", " (3)", ... before the extension until the name is unused
+export function uniqueFileName(name: string, used: Set<string>): string {
+  const dot = name.lastIndexOf('.')
+  const base = dot > 0 ? name.slice(0, dot) : name
+  const ext = dot > 0 ? name.slice(dot) : ''
+  let candidate = name
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${ext}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+export interface EncodeCommand {
+  // From getInputArgs, for every input
+  inputArgs: string[]
+  // Cover picture already in the virtual FS, attached as the second input of a single-input encode
+  coverName: string | null
+  settings: EncodeSettings
+  // Filter expressions, run in order as one -af chain
+  filters: string[]
+  // Graph over all inputs with its output labelled [out]; replaces `filters` and the first input's audio
+  filterGraph?: string
+  // Input holding an FFMETADATA file whose chapters and global tags are written, so no input's own tags carry over
+  chaptersInput?: number
+  sourceSampleRate: number
+  sourceChannels: number
+  // loudnorm upsamples to 192 kHz; the source rate is restored unless the settings pick one
+  restoreSampleRate: boolean
+  stereoMode: StereoMode
+  stripTags: boolean
+  // Tags to overwrite as [ffmpeg key, value]; the rest are carried over from the input
+  metadata: [string, string][]
+  threads: number
+  outputName: string
+}
+
+/**
+ * The full ffmpeg argument list for one encode. The browser and the CLI both
+ * build their commands here, so the same settings produce the same file.
+ */
+export function buildEncodeArgs(command: EncodeCommand): string[] {
+  const { settings, coverName, filters } = command
+  const { sampleRate, channels } = settings
+  const codec = getCodec(settings.codec)
+  const args = [...command.inputArgs]
+
+  if (coverName) {
+    args.push('-i', coverName)
+  }
+
+  args.push(...getEncoderArgs(settings))
+
+  if (command.filterGraph) {
+    args.push('-filter_complex', command.filterGraph)
+  } else if (filters.length > 0) {
+    args.push('-af', filters.join(','))
+  }
+
+  if (sampleRate) {
+    args.push('-ar', sampleRate.toString())
+  } else if (command.restoreSampleRate) {
+    args.push('-ar', command.sourceSampleRate.toString())
+  }
+
+  if (channels) {
+    args.push('-ac', channels.toString())
+  }
+
+  const stereoOption = stereoModeOptionNames[codec.id]
+  if (stereoOption && command.stereoMode !== 'auto' && (channels ?? command.sourceChannels) === 2) {
+    args.push(stereoOption, command.stereoMode === 'joint' ? '1' : '0')
+  }
+
+  // Only the first audio stream; video and extra tracks are dropped
+  args.push('-map', command.filterGraph ? '[out]' : '0:a:0')
+
+  if (coverName) {
+    args.push('-map', '1:v', '-c:v', 'copy', '-disposition:v', 'attached_pic')
+    args.push('-metadata:s:v', 'title=Album cover', '-metadata:s:v', 'comment=Cover (front)')
+  }
+
+  if (command.stripTags) {
+    args.push('-map_metadata', '-1', '-fflags', '+bitexact', '-flags:a', '+bitexact')
+    if (codec.id === 'mp3') {
+      args.push('-id3v2_version', '0')
+    }
+  } else {
+    if (command.chaptersInput !== undefined) {
+      args.push('-map_metadata', command.chaptersInput.toString(), '-map_chapters', command.chaptersInput.toString())
+    }
+    for (const [key, value] of command.metadata) {
+      args.push('-metadata', `${key}=${value}`)
+    }
+    if (codec.id === 'mp3') {
+      args.push('-id3v2_version', '3')
+    }
+  }
+
+  if (command.threads > 1) {
+    args.push('-threads', command.threads.toString())
+  }
+
+  args.push('-y', command.outputName)
+  return args
+}
+
+// "name_128kbps.mp3" becomes "name_128kbps_part01.mp3"
+export function formatPartName(name: string, index: number): string {
+  const dot = name.lastIndexOf('.')
+  return `${name.slice(0, dot)}_part${String(index + 1).padStart(2, '0')}${name.slice(dot)}`
+}
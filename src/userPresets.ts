@@ -0,0 +1,179 @@
+import { createFilterChain, FilterStage, parseFilterChain } from './audioFilters'
+import { codecs, EncodeSettings, OutputCodec, RateControl } from './codecs'
+
+export interface UserPreset extends EncodeSettings {
+  id: string
+  name: string
+  // Cleanup filters in chain order
+  filters: FilterStage[]
+}
+
+export interface PresetLibrary {
+  presets: UserPreset[]
+  // Display order of built-in and user preset ids
+  order: string[]
+}
+
+// One problem found in an imported file; `key` is an i18n key
+export interface PresetIssue {
+  // Index into the file's preset list, or null for the file as a whole
+  entry: number | null
+  key: string
+  field?: string
+}
+
+export interface PresetFile {
+  presets: Omit<UserPreset, 'id'>[]
+  // Empty when the file is valid
+  issues: PresetIssue[]
+}
+
+const STORAGE_KEY = 'mp3-compress-presets'
+const CUSTOM_STORAGE_KEY = 'mp3-compress-custom'
+// Written into exported files so imports can tell them apart from other JSON
+const FILE_FORMAT = 'mp3-compress-presets'
+const FILE_VERSION = 1
+const MAX_NAME_LENGTH = 60
+
+const rateControls: RateControl[] = ['cbr', 'vbr', 'abr']
+
+export function createPresetId(): string {
+  return `user-${crypto.randomUUID()}`
+}
+
+// Problems with one preset entry; an empty list means it is usable
+function validateEntry(value: unknown, entry: number | null): PresetIssue[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ entry, key: 'presetIssueNotObject' }]
+  }
+  const data = value as Record<string, unknown>
+  const issues: PresetIssue[] = []
+  const invalid = (field: string) => issues.push({ entry, key: 'presetIssueField', field })
+
+  if (typeof data.name !== 'string' || !data.name.trim() || data.name.length > MAX_NAME_LENGTH) {
+    invalid('name')
+  }
+  const codec = codecs.find(c => c.id === data.codec)
+  if (!codec) {
+    invalid('codec')
+  }
+  if (!rateControls.includes(data.rateControl as RateControl)
+    || (codec && codec.rateControls.length > 0 && !codec.rateControls.includes(data.rateControl as RateControl))) {
+    invalid('rateControl')
+  }
+  if (typeof data.bitrate !== 'number' || (codec && codec.bitrates.length > 0 && !codec.bitrates.includes(data.bitrate))) {
+    invalid('bitrate')
+  }
+  if (!Number.isInteger(data.vbrQuality) || (data.vbrQuality as number) < 0 || (data.vbrQuality as number) > 9) {
+    invalid('vbrQuality')
+  }
+  if (data.sampleRate !== null && (typeof data.sampleRate !== 'number' || (codec && !codec.sampleRates.includes(data.sampleRate)))) {
+    invalid('sampleRate')
+  }
+  if (data.channels !== null && data.channels !== 1 && data.channels !== 2) {
+    invalid('channels')
+  }
+  // Presets saved before filters existed have none
+  if (data.filters !== undefined && !parseFilterChain(data.filters)) {
+    invalid('filters')
+  }
+  return issues
+}
+
+function toSettings(data: Record<string, unknown>): EncodeSettings {
+  return {
+    codec: data.codec as OutputCodec,
+    rateControl: data.rateControl as RateControl,
+    bitrate: data.bitrate as number,
+    vbrQuality: data.vbrQuality as number,
+    sampleRate: data.sampleRate as number | null,
+    channels: data.channels as number | null,
+  }
+}
+
+function toFilters(data: Record<string, unknown>): FilterStage[] {
+  return data.filters === undefined ? createFilterChain(false) : parseFilterChain(data.filters)!
+}
+
+// Stored presets that no longer validate (e.g. edited by hand) are dropped
+export function loadPresetLibrary(): PresetLibrary {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    if (stored && Array.isArray(stored.presets) && Array.isArray(stored.order)) {
+      const presets = (stored.presets as Record<string, unknown>[])
+        .filter(p => typeof p?.id === 'string' && validateEntry(p, null).length === 0)
+        .map(p => ({ id: p.id as string, name: p.name as string, ...toSettings(p), filters: toFilters(p) }))
+      return { presets, order: stored.order.filter((id: unknown) => typeof id === 'string') }
+    }
+  } catch {
+    // Unreadable storage starts an empty library
+  }
+  return { presets: [], order: [] }
+}
+
+export function savePresetLibrary(library: PresetLibrary): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library))
+}
+
+// Last Custom-mode values, restored on reload
+export function loadCustomSettings(): Pick<EncodeSettings, 'bitrate' | 'vbrQuality' | 'sampleRate' | 'channels'> | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_STORAGE_KEY) ?? 'null')
+    if (stored && typeof stored.bitrate === 'number' && typeof stored.vbrQuality === 'number'
+      && typeof stored.sampleRate === 'number' && typeof stored.channels === 'number') {
+      return stored
+    }
+  } catch {
+    // Fall back to the defaults
+  }
+  return null
+}
+
+export function saveCustomSettings(settings: Pick<EncodeSettings, 'bitrate' | 'vbrQuality' | 'sampleRate' | 'channels'>): void {
+  localStorage.setItem(CUSTOM_STORAGE_KEY, JSON.stringify(settings))
+}
+
+export function exportPresets(presets: UserPreset[]): Blob {
+  const file = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    presets: presets.map(({ name, codec, rateControl, bitrate, vbrQuality, sampleRate, channels, filters }) => (
+      { name, codec, rateControl, bitrate, vbrQuality, sampleRate, channels, filters }
+    )),
+  }
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+}
+
+/**
+ * Parse and validate an exported preset file. The whole file is rejected if
+ * any entry is invalid, with every problem listed.
+ */
+export function parsePresetFile(text: string): PresetFile {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { presets: [], issues: [{ entry: null, key: 'presetIssueJson' }] }
+  }
+
+  const file = data as Record<string, unknown> | null
+  if (typeof file !== 'object' || file === null || file.format !== FILE_FORMAT || !Array.isArray(file.presets)) {
+    return { presets: [], issues: [{ entry: null, key: 'presetIssueFormat' }] }
+  }
+  if (file.version !== FILE_VERSION) {
+    return { presets: [], issues: [{ entry: null, key: 'presetIssueVersion' }] }
+  }
+
+  const entries = file.presets as unknown[]
+  const issues = entries.flatMap((entry, index) => validateEntry(entry, index))
+  if (issues.length > 0) {
+    return { presets: [], issues }
+  }
+  return {
+    presets: entries.map((entry) => {
+      const data = entry as Record<string, unknown>
+      return { name: (data.name as string).trim(), ...toSettings(data), filters: toFilters(data) }
+    }),
+    issues: [],
+  }
+}
@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Set to "false" to never fetch the FFmpeg core from the CDN
+  readonly VITE_FFMPEG_CDN_FALLBACK?: string
+}
+
+interface FFmpegCoreFiles {
+  js: { path: string; integrity: string }
+  wasm: { paths: string[]; integrity: string }
+  // pthread worker script, multithreaded core only
+  worker?: { path: string; integrity: string }
+}
+
+// Self-hosted core paths (relative to the base URL) and SRI hashes, injected by vite.config.ts
+declare const __FFMPEG_CORE__: {
+  st: FFmpegCoreFiles
+  mt: FFmpegCoreFiles
+}
@@ -0,0 +1,109 @@
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+// Without ZIP64, sizes and offsets are 32-bit and the entry count is 16-bit
+const MAX_ZIP_BYTES = 0xffffffff
+const MAX_ZIP_ENTRIES = 0xffff
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// Whether files of these names and sizes fit in one archive; createZip has no ZIP64 support
+export function fitsInZip(files: { name: string; size: number }[]): boolean {
+  const encoder = new TextEncoder()
+  // Local header and central directory entry per file, plus the end record
+  const total = files.reduce((sum, file) => sum + 76 + 2 * encoder.encode(file.name).length + file.size, 22)
+  return files.length <= MAX_ZIP_ENTRIES && total <= MAX_ZIP_BYTES
+}
+
+/**
+ * Build a ZIP archive in memory. Entries are stored without compression,
+ * since compressed audio does not shrink any further with deflate.
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+  if (!fitsInZip(entries.map(entry => ({ name: entry.name, size: entry.data.length })))) {
+    throw new Error(`ZIP archives are limited to 4 GB and ${MAX_ZIP_ENTRIES} files`)
+  }
+  const encoder = new TextEncoder()
+  const stamp = dosDateTime(modified)
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+
+    const local = new Uint8Array(30 + name.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true)
+    lv.setUint16(4, 20, true) // version needed
+    lv.setUint16(6, 0x0800, true) // UTF-8 file names
+    lv.setUint16(8, 0, true) // stored
+    lv.setUint16(10, stamp.time, true)
+    lv.setUint16(12, stamp.date, true)
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, size, true)
+    lv.setUint32(22, size, true)
+    lv.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const header = new Uint8Array(46 + name.length)
+    const hv = new DataView(header.buffer)
+    hv.setUint32(0, 0x02014b50, true)
+    hv.setUint16(4, 20, true) // version made by
+    hv.setUint16(6, 20, true) // version needed
+    hv.setUint16(8, 0x0800, true)
+    hv.setUint16(10, 0, true)
+    hv.setUint16(12, stamp.time, true)
+    hv.setUint16(14, stamp.date, true)
+    hv.setUint32(16, crc, true)
+    hv.setUint32(20, size, true)
+    hv.setUint32(24, size, true)
+    hv.setUint16(28, name.length, true)
+    hv.setUint32(42, offset, true)
+    header.set(name, 46)
+
+    parts.push(local, entry.data)
+    central.push(header)
+    offset += local.length + size
+  }
+
+  const centralSize = central.reduce((sum, h) => sum + h.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true)
+  ev.setUint16(8, entries.length, true)
+  ev.setUint16(10, entries.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' })
+}
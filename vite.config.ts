@@ -1,15 +1,157 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Cloudflare rejects static assets over 25 MiB, so the wasm is served in parts
+const WASM_PART_SIZE = 16 * 1024 * 1024
+// Build directory of the core files
+const CORE_DIR = 'ffmpeg/'
+
+function integrity(data: Buffer): string {
+  return `sha256-${createHash('sha256').update(data).digest('base64')}`
+}
+
+// Ship @ffmpeg/core and @ffmpeg/core-mt with the app and expose their paths and SRI hashes as __FFMPEG_CORE__
+function ffmpegCore(): Plugin {
+  const files = new Map<string, Buffer>()
+  const manifest: Record<string, unknown> = {}
+
+  for (const [id, pkg] of [['st', 'core'], ['mt', 'core-mt']]) {
+    const dir = fileURLToPath(new URL(`./node_modules/@ffmpeg/${pkg}/dist/esm/`, import.meta.url))
+    const js = readFileSync(`${dir}ffmpeg-core.js`)
+    const wasm = readFileSync(`${dir}ffmpeg-core.wasm`)
+    const version = createHash('sha256').update(js).update(wasm).digest('hex').slice(0, 8)
+    const prefix = `${CORE_DIR}${pkg}.${version}`
+
+    files.set(`${prefix}.js`, js)
+    const wasmPaths: string[] = []
+    for (let offset = 0; offset < wasm.length; offset += WASM_PART_SIZE) {
+      const path = `${prefix}.wasm.${wasmPaths.length}`
+      files.set(path, wasm.subarray(offset, offset + WASM_PART_SIZE))
+      wasmPaths.push(path)
+    }
+
+    const entry: Record<string, unknown> = {
+      js: { path: `${prefix}.js`, integrity: integrity(js) },
+      wasm: { paths: wasmPaths, integrity: integrity(wasm) },
+    }
+    // Only the multithreaded core has a pthread worker script
+    if (id === 'mt') {
+      const worker = readFileSync(`${dir}ffmpeg-core.worker.js`)
+      files.set(`${prefix}.worker.js`, worker)
+      entry.worker = { path: `${prefix}.worker.js`, integrity: integrity(worker) }
+    }
+    manifest[id] = entry
+  }
+
+  return {
+    name: 'ffmpeg-core',
+    config: () => ({
+      define: {
+        __FFMPEG_CORE__: JSON.stringify(manifest),
+      },
+    }),
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const data = files.get((req.url ?? '').replace(/^\//, ''))
+        if (!data) return next()
+        res.setHeader('Content-Type', 'application/octet-stream')
+        res.end(data)
+      })
+    },
+    generateBundle() {
+      for (const [fileName, source] of files) {
+        this.emitFile({ type: 'asset', fileName, source })
+      }
+    },
+  }
+}
+
+/**
+ * Precache the app shell so the app works offline once installed. The two
+ * cores together are about 64 MB, so they are cached when first fetched
+ * instead: each browser only ever stores the one it loads. The core has its
+ * own cache, keyed by the core files alone, so deploying a new shell keeps it.
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle)
+      const coreFiles = files.filter(name => name.startsWith(CORE_DIR))
+      const assets = ['./', 'manifest.webmanifest', 'icon.svg', ...files.filter(name => !name.startsWith(CORE_DIR))]
+      // Bundle and core paths carry content hashes, so their names are enough to version each cache
+      const hash = (names: string[]) => createHash('sha256').update(names.join('\n')).digest('hex').slice(0, 8)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `const CACHE = 'mp3-compressor-${hash(assets)}'
+const CORE_CACHE = 'mp3-compressor-core-${hash(coreFiles)}'
+const PRECACHE = ${JSON.stringify(assets)}
+const CORE_DIR = ${JSON.stringify(CORE_DIR)}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE.map((path) => new URL(path, self.registration.scope))))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE && key !== CORE_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    // Network first so new deployments show up; the cached shell covers offline use
+    event.respondWith(
+      fetch(request).catch(() => caches.match(new URL('./', self.registration.scope)).then((cached) => cached || Response.error())),
+    )
+    return
+  }
+  if (request.url.startsWith(new URL(CORE_DIR, self.registration.scope).href)) {
+    event.respondWith(caches.open(CORE_CACHE).then((cache) => cache.match(request).then((cached) => cached || fetch(request).then((response) => {
+      if (response.ok) cache.put(request, response.clone())
+      return response
+    }))))
+    return
+  }
+  event.respondWith(caches.match(request).then((cached) => cached || fetch(request)))
+})
+`,
+      })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), ffmpegCore(), serviceWorker()],
   optimizeDeps: {
     exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util']
   },
+  // Cross-origin isolation enables SharedArrayBuffer for the multithreaded core;
+  // production serves the same headers from public/_headers
   server: {
     headers: {
       'Cross-Origin-Opener-Policy': 'same-origin',
       'Cross-Origin-Embedder-Policy': 'require-corp'
     }
+  },
+  preview: {
+    headers: {
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'require-corp'
+    }
   }
 })